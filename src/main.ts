@@ -2,10 +2,26 @@
 import { generateFromOpenAPI } from "./utils/generateFromOpenAPI.ts";
 
 const args = Deno.args;
+const specPath = args.find((arg) => !arg.startsWith("--"));
+const strict = args.includes("--strict");
+const clientStructure = args.includes("--nested") ? "nested" : "flat";
+const errorMode = args.includes("--throw") ? "throw" : "union";
+const validators = args.includes("--validators");
+const fakes = args.includes("--fakes");
+const generateMockServer = args.includes("--mock");
+const generateMockClient = args.includes("--mock-client");
 
 const init = async () => {
   try {
-    const result = await generateFromOpenAPI(args[0]);
+    const result = await generateFromOpenAPI(specPath!, {
+      strict,
+      clientStructure,
+      errorMode,
+      validators,
+      fakes,
+      generateMockServer,
+      generateMockClient,
+    });
     console.log("🎉 Generation completed successfully!");
     
     if (result.typesPath) {
@@ -14,6 +30,12 @@ const init = async () => {
     if (result.clientPath) {
       console.log(`🔧 Client: ${result.clientPath}`);
     }
+    if (result.mockServerPath) {
+      console.log(`🧪 Mock server: ${result.mockServerPath}`);
+    }
+    if (result.mockClientPath) {
+      console.log(`🧪 Mock client: ${result.mockClientPath}`);
+    }
   } catch (error) {
     console.error("❌ Error generating client:", (error as Error).message);
     Deno.exit(1);
@@ -6,11 +6,38 @@
  */
 
 // Re-export main interfaces
-export type { OpenAPIData, OpenAPISchema } from "./types/interfaces.ts";
+export type { OAuthFlow, OpenAPIData, OpenAPISchema, SecurityScheme, SwaggerData } from "./types/interfaces.ts";
 
 // Re-export main generator functions
-export { generateClientFromOpenAPI } from "./utils/dynamic-client-generator.ts";
-export { createTypesFromApiData } from "./utils/type-generators.ts";
+export {
+  generateClientFromOpenAPI,
+  findMethodNameCollisions,
+  buildClient,
+  type ClientGeneratorOptions,
+  type GeneratedClient,
+  type MethodNameRename
+} from "./utils/dynamic-client-generator.ts";
+export {
+  createDynamicClient,
+  type DynamicClient,
+  type DynamicClientConfig,
+  type DynamicMethod,
+  type DynamicResponse
+} from "./utils/dynamic-runtime-client.ts";
+export { createTypesFromApiData, type TypeGeneratorOptions } from "./utils/type-generators.ts";
+export { createValidatorsFromApiData } from "./utils/validator-generators.ts";
+export { createFakesFromApiData } from "./utils/fake-data-generators.ts";
+export { generateMockServer, type MockServerOptions } from "./utils/mock-server-generator.ts";
+export { generateMockClient, type MockClientOptions } from "./utils/mock-client-generator.ts";
+export { resolveRefs, RefResolutionError } from "./utils/ref-resolver.ts";
+export { convertSwaggerToOpenAPI, isSwagger2 } from "./utils/swagger-converter.ts";
+export {
+  validateSpec,
+  formatDiagnostic,
+  SpecValidationError,
+  type Diagnostic,
+  type DiagnosticSeverity
+} from "./utils/spec-validator.ts";
 
 // Re-export convenience functions
 export { 
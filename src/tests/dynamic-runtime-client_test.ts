@@ -0,0 +1,230 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { createDynamicClient, type DynamicMethod, type DynamicResponse } from "../utils/dynamic-runtime-client.ts";
+import { generateClientFromOpenAPI, getClientOperations } from "../utils/dynamic-client-generator.ts";
+import { RefResolutionError } from "../utils/ref-resolver.ts";
+import type { OpenAPIData } from "../types/interfaces.ts";
+
+const todosApiData: OpenAPIData = {
+  servers: [{ url: "https://api.example.com" }],
+  paths: {
+    "/todos": {
+      get: {
+        operationId: "listTodos",
+        parameters: [
+          { name: "filter", in: "query", style: "deepObject", schema: { type: "object" } },
+          { name: "tags", in: "query", explode: false, schema: { type: "array", items: { type: "string" } } },
+        ],
+        responses: { "200": { description: "Todos", content: { "application/json": { schema: { type: "array" } } } } },
+      },
+      post: {
+        operationId: "createTodo",
+        requestBody: { content: { "application/json": { schema: { type: "object" } } } },
+        responses: { "201": { description: "Created" } },
+      },
+    },
+    "/todos/{id}": {
+      parameters: [{ name: "X-Request-Id", in: "header", schema: { type: "string" } }],
+      get: {
+        operationId: "getTodo",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        responses: { "200": { description: "Todo", content: { "text/plain": { schema: { type: "string" } } } } },
+      },
+      put: {
+        operationId: "updateTodo",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        requestBody: { content: { "application/json": { schema: { type: "object" } } } },
+        responses: { "204": { description: "Updated" } },
+      },
+      delete: {
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        responses: { "204": { description: "Deleted" } },
+      },
+    },
+  },
+  components: { schemas: {} },
+};
+
+interface RecordedRequest {
+  url: string;
+  method?: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+}
+
+async function withFetch(
+  respond: (request: RecordedRequest) => Response,
+  run: (requests: RecordedRequest[]) => Promise<void>,
+): Promise<void> {
+  const originalFetch = globalThis.fetch;
+  const requests: RecordedRequest[] = [];
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const request = { url: String(input), method: init?.method, headers: init?.headers as Record<string, string>, body: init?.body };
+    requests.push(request);
+    return Promise.resolve(respond(request));
+  };
+  try {
+    await run(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+Deno.test("getClientOperations - names match the generated flat client", async () => {
+  const apiData = JSON.parse(
+    await Deno.readTextFile("spec-files/1password.json"),
+  ) as OpenAPIData;
+
+  const generated = generateClientFromOpenAPI(apiData);
+  const operations = getClientOperations(apiData);
+
+  assertEquals(operations.length > 0, true);
+  for (const operation of operations) {
+    assertEquals(generated.includes(`    ${operation.name}: `), true, operation.name);
+  }
+  assertEquals(operations.find((o) => o.name === "itemsUpdateitemdetails")?.curried, true);
+  assertEquals(operations.find((o) => o.name === "itemsGetdetailsbyid")?.curried, false);
+});
+
+Deno.test("createDynamicClient - sends requests like the generated client", async () => {
+  const client = createDynamicClient(todosApiData, { headers: { "X-Api-Key": "key" } });
+
+  await withFetch(
+    (request) => request.method === "GET" && request.url.includes("/todos/")
+      ? new Response("Buy milk")
+      : request.method === "GET"
+      ? new Response(JSON.stringify([{ id: 1 }]))
+      : new Response(null, { status: request.method === "POST" ? 201 : 204 }),
+    async (requests) => {
+      const list = await client.get.listtodos({ filter: { done: false }, tags: ["a", "b"] }) as DynamicResponse;
+      assertEquals(list.data, [{ id: 1 }]);
+      assertEquals(list.ok, true);
+      assertEquals(requests[0].url, "https://api.example.com/todos?filter[done]=false&tags=a,b");
+      assertEquals(requests[0].headers, { "X-Api-Key": "key" });
+
+      const todo = await client.get.gettodo(7, {}, { "X-Request-Id": "abc" }) as DynamicResponse;
+      assertEquals(todo.data, "Buy milk");
+      assertEquals(requests[1].url, "https://api.example.com/todos/7");
+      assertEquals(requests[1].headers, { "X-Api-Key": "key", "X-Request-Id": "abc" });
+
+      const created = await client.post.createtodo({ title: "Walk" }) as DynamicResponse;
+      assertEquals(created.status, 201);
+      assertEquals(requests[2].body, '{"title":"Walk"}');
+      assertEquals(requests[2].headers["Content-Type"], "application/json");
+
+      // Path parameters first, then the body, for PUT, POST, PATCH and DELETE
+      const updated = await (client.put.updatetodo("a/b") as DynamicMethod)({ done: true }) as DynamicResponse;
+      assertEquals(updated.data, undefined);
+      assertEquals(requests[3].url, "https://api.example.com/todos/a%2Fb");
+      assertEquals(requests[3].method, "PUT");
+    },
+  );
+});
+
+Deno.test("createDynamicClient - namespaces read like plain objects", () => {
+  const client = createDynamicClient(todosApiData);
+
+  assertEquals(Object.keys(client), ["get", "post", "put", "delete"]);
+  assertEquals(Object.keys(client.get), ["listtodos", "gettodo"]);
+  assertEquals("listtodos" in client.get, true);
+  assertEquals(client.get.getTodos, undefined);
+  assertEquals(String(client.get), "[object Object]");
+  assertEquals(`${client.post}`, "[object Object]");
+  assertEquals(JSON.stringify(client.get), "{}");
+});
+
+Deno.test("createDynamicClient - operations without an operationId use the resource names", async () => {
+  const apiData = JSON.parse(await Deno.readTextFile("spec-files/api-data.json")) as OpenAPIData;
+  const client = createDynamicClient(apiData);
+
+  assertEquals(Object.keys(client.get), ["todos", "todo"]);
+  assertEquals(Object.keys(client.delete), ["todo"]);
+
+  await withFetch(
+    (request) => new Response(request.method === "DELETE" ? null : "{}", { status: request.method === "DELETE" ? 204 : 200 }),
+    async (requests) => {
+      await client.get.todos({ page: 2 });
+      await (client.get.todo(3) as DynamicMethod).get();
+      await client.post.todos({ title: "Walk" });
+      await (client.put.todo(3) as DynamicMethod)({ done: true });
+      const deleted = await (client.delete.todo(3) as DynamicMethod)() as DynamicResponse;
+      assertEquals(deleted.status, 204);
+
+      assertEquals(requests.map((r) => `${r.method} ${r.url}`), [
+        "GET https://api.example.com/todos?page=2",
+        "GET https://api.example.com/todos/3",
+        "POST https://api.example.com/todos",
+        "PUT https://api.example.com/todos/3",
+        "DELETE https://api.example.com/todos/3",
+      ]);
+      assertEquals(requests[2].body, '{"title":"Walk"}');
+    },
+  );
+});
+
+Deno.test("createDynamicClient - resolves local refs", async () => {
+  const apiData = {
+    servers: [{ url: "https://api.example.com" }],
+    paths: {
+      "/orders": {
+        get: {
+          operationId: "listOrders",
+          parameters: [
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/RequestId" },
+            { $ref: "#/components/parameters/Session" },
+          ],
+          responses: { "200": { $ref: "#/components/responses/Orders" } },
+        },
+        post: {
+          operationId: "createOrder",
+          requestBody: { $ref: "#/components/requestBodies/OrderInput" },
+          responses: { "201": { description: "Created" } },
+        },
+      },
+    },
+    components: {
+      schemas: { Order: { type: "object" } },
+      parameters: {
+        Limit: { name: "limit", in: "query", schema: { type: "integer" } },
+        RequestId: { name: "X-Request-Id", in: "header", schema: { type: "string" } },
+        Session: { name: "session", in: "cookie", schema: { type: "string" } },
+      },
+      requestBodies: {
+        OrderInput: { content: { "application/json": { schema: { $ref: "#/components/schemas/Order" } } } },
+      },
+      responses: {
+        Orders: { description: "Orders", content: { "text/plain": { schema: { type: "string" } } } },
+      },
+    },
+  } as unknown as OpenAPIData;
+  const client = createDynamicClient(apiData);
+
+  await withFetch(
+    (request) => new Response(request.method === "GET" ? "2 orders" : null, { status: request.method === "GET" ? 200 : 201 }),
+    async (requests) => {
+      const orders = await client.get.listorders({ limit: 2 }, { "X-Request-Id": "abc" }, { session: "s1" }) as DynamicResponse;
+      assertEquals(orders.data, "2 orders");
+      assertEquals(requests[0].url, "https://api.example.com/orders?limit=2");
+      assertEquals(requests[0].headers, { "X-Request-Id": "abc", Cookie: "session=s1" });
+
+      await client.post.createorder({ id: 1 });
+      assertEquals(requests[1].body, '{"id":1}');
+      assertEquals(requests[1].headers["Content-Type"], "application/json");
+    },
+  );
+});
+
+Deno.test("createDynamicClient - reports unresolved local refs", () => {
+  const apiData = {
+    servers: [{ url: "https://api.example.com" }],
+    paths: {
+      "/orders": {
+        get: { parameters: [{ $ref: "#/components/parameters/Missing" }], responses: {} },
+      },
+    },
+    components: { schemas: {} },
+  } as unknown as OpenAPIData;
+
+  const error = assertThrows(() => createDynamicClient(apiData), RefResolutionError, "Unresolved $ref");
+  assertEquals((error as RefResolutionError).pointer, "#/paths/~1orders/get/parameters/0");
+});
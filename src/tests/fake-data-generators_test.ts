@@ -0,0 +1,179 @@
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { parse } from "@std/yaml";
+import { createFakesFromApiData } from "../utils/fake-data-generators.ts";
+import { createTypesFromApiData } from "../utils/type-generators.ts";
+import type { OpenAPIData } from "../types/interfaces.ts";
+import { importModule } from "./test_utils.ts";
+
+const petsApiData: OpenAPIData = {
+  servers: [{ url: "https://pets.example.com" }],
+  paths: {},
+  components: {
+    schemas: {
+      Pet: {
+        type: "object",
+        required: ["id", "name", "status", "owner", "tags", "born", "weight"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+          name: { type: "string", minLength: 12, maxLength: 20 },
+          status: { type: "string", enum: ["available", "sold"] },
+          age: { type: "integer", minimum: 1, maximum: 20 },
+          weight: { type: "number", exclusiveMinimum: 0, maximum: 2 },
+          born: { type: "string", format: "date-time" },
+          owner: { $ref: "#/components/schemas/Owner" },
+          tags: { type: "array", minItems: 2, maxItems: 4, items: { $ref: "#/components/schemas/Tag" } },
+        },
+      },
+      Owner: {
+        allOf: [
+          { $ref: "#/components/schemas/Tag" },
+          { type: "object", required: ["email"], properties: { email: { type: "string", format: "email" } } },
+        ],
+      },
+      Tag: { type: "object", required: ["label"], properties: { label: { type: "string" } } },
+      Node: {
+        type: "object",
+        required: ["children"],
+        properties: { children: { type: "array", items: { $ref: "#/components/schemas/Node" } } },
+      },
+    },
+  },
+};
+
+/**
+ * The `fake<Type>` and `validate<Type>` exports of a types module, looked up by name
+ */
+type FakesModule = Record<string, (value?: unknown) => unknown>;
+
+interface FakePet {
+  id: string;
+  name: string;
+  weight: number;
+  age?: number;
+  tags: unknown[];
+  born: string;
+  owner: { email: string; label: unknown };
+}
+
+Deno.test("createTypesFromApiData - fakes are opt-in", () => {
+  assertEquals(createTypesFromApiData(petsApiData).includes("__fakeSchema"), false);
+
+  const result = createTypesFromApiData(petsApiData, { fakes: true });
+  assertEquals(result.includes("export function __fakeSchema(schema: any, seed = 1): unknown {"), true);
+  assertEquals(result.includes("export const fakePet = (seed = 1): Pet => {"), true);
+  assertEquals(result.includes("export const fakeTag = (seed = 1): Tag => {"), true);
+
+  // Validators and fakes share the schema table
+  const both = createTypesFromApiData(petsApiData, { fakes: true, validators: true });
+  assertEquals(both.split("const schemas: Record<string, any> = {").length, 2);
+});
+
+Deno.test("createFakesFromApiData - fakes match their schemas and repeat per seed", async () => {
+  const { fakePet, fakeNode, validatePet, validateNode } = await importModule<{
+    fakePet(seed?: number): FakePet;
+    fakeNode(seed?: number): unknown;
+    validatePet(value: unknown): unknown[];
+    validateNode(value: unknown): unknown[];
+  }>(
+    createTypesFromApiData(petsApiData, { fakes: true, validators: true }),
+  );
+
+  for (let seed = 0; seed < 50; seed++) {
+    const pet = fakePet(seed);
+    assertEquals(validatePet(pet), [], JSON.stringify(pet));
+    assertEquals(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/.test(pet.id), true, pet.id);
+    assertEquals(pet.name.length >= 12 && pet.name.length <= 20, true, pet.name);
+    assertEquals(pet.weight > 0 && pet.weight <= 2, true);
+    assertEquals(pet.age === undefined || (pet.age >= 1 && pet.age <= 20), true);
+    assertEquals(pet.tags.length >= 2 && pet.tags.length <= 4, true);
+    assertEquals(new Date(pet.born).toISOString().replace(".000", ""), pet.born);
+    assertEquals(pet.owner.email.endsWith("@example.com"), true);
+    assertEquals(typeof pet.owner.label, "string");
+    assertEquals(validateNode(fakeNode(seed)), []);
+  }
+
+  assertEquals(fakePet(7), fakePet(7));
+  assertEquals(fakePet(), fakePet(1));
+  assertNotEquals(fakePet(7), fakePet(8));
+});
+
+Deno.test("createFakesFromApiData - OpenAPI 3.1 fixture", async () => {
+  const apiData = parse(
+    await Deno.readTextFile("spec-files/openapi-3.1.yaml"),
+  ) as OpenAPIData;
+
+  const fakes = createFakesFromApiData(apiData);
+  assertEquals(fakes.includes('__fakeSchema({ $ref: "#/components/schemas/Book/$defs/Shelf" }, seed) as BookShelf'), true);
+
+  const module = await importModule<FakesModule>(createTypesFromApiData(apiData, { fakes: true, validators: true }));
+  for (const typeName of Object.keys(apiData.components!.schemas!)) {
+    for (let seed = 0; seed < 10; seed++) {
+      assertEquals(module[`validate${typeName}`](module[`fake${typeName}`](seed)), [], `${typeName} ${seed}`);
+    }
+  }
+});
+
+Deno.test("createFakesFromApiData - schemas named like the runtime helpers", async () => {
+  const apiData: OpenAPIData = {
+    servers: [{ url: "https://example.com" }],
+    paths: {},
+    components: {
+      schemas: {
+        Value: { type: "object", required: ["number"], properties: { number: { $ref: "#/components/schemas/Number" } } },
+        String: { type: "string", enum: ["red", "blue"] },
+        Number: { type: "integer", enum: [5, 7] },
+        Schema: { type: "array", items: { $ref: "#/components/schemas/String" } },
+      },
+    },
+  };
+
+  const { fakeValue, fakeString, fakeNumber, fakeSchema } = await importModule<{
+    fakeValue(seed?: number): { number: number };
+    fakeString(seed?: number): string;
+    fakeNumber(seed?: number): number;
+    fakeSchema(seed?: number): string[];
+  }>(
+    createTypesFromApiData(apiData, { fakes: true }),
+  );
+  assertEquals([5, 7].includes(fakeValue(3).number), true);
+  assertEquals(["red", "blue"].includes(fakeString(3)), true);
+  assertEquals([5, 7].includes(fakeNumber(3)), true);
+  assertEquals(fakeSchema(3).every((item) => ["red", "blue"].includes(item)), true);
+});
+
+Deno.test("createFakesFromApiData - required nullable self-references end in null", async () => {
+  const apiData: OpenAPIData = {
+    servers: [{ url: "https://example.com" }],
+    paths: {},
+    components: {
+      schemas: {
+        ListNode: {
+          type: ["object", "null"],
+          required: ["value", "next"],
+          properties: { value: { type: "integer" }, next: { $ref: "#/components/schemas/ListNode" } },
+        },
+        LegacyNode: {
+          type: "object",
+          nullable: true,
+          required: ["next"],
+          properties: { next: { $ref: "#/components/schemas/LegacyNode" } },
+        },
+        Tree: {
+          type: "object",
+          required: ["left", "right"],
+          properties: {
+            left: { anyOf: [{ $ref: "#/components/schemas/Tree" }, { type: "null" }] },
+            right: { oneOf: [{ type: "null" }, { $ref: "#/components/schemas/Tree" }] },
+          },
+        },
+      },
+    },
+  };
+
+  const module = await importModule<FakesModule>(createTypesFromApiData(apiData, { fakes: true, validators: true }));
+  for (const typeName of ["ListNode", "LegacyNode", "Tree"]) {
+    for (let seed = 0; seed < 20; seed++) {
+      assertEquals(module[`validate${typeName}`](module[`fake${typeName}`](seed)), [], `${typeName} ${seed}`);
+    }
+  }
+});
@@ -0,0 +1,124 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { generateMockClient } from "../utils/mock-client-generator.ts";
+import { generateClientFromOpenAPI } from "../utils/dynamic-client-generator.ts";
+import type { OpenAPIData } from "../types/interfaces.ts";
+import { type ClientResponse, importModule, toModuleUrl } from "./test_utils.ts";
+
+const peopleApiData: OpenAPIData = {
+  servers: [{ url: "https://people.example.com" }],
+  paths: {
+    "/people": {
+      get: {
+        operationId: "listPeople",
+        parameters: [{ name: "limit", in: "query", schema: { type: "integer" } }],
+        responses: { "200": { description: "People", content: { "application/json": { schema: { type: "array" } } } } },
+      },
+    },
+    "/people/{id}": {
+      get: {
+        operationId: "getPersonById",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "200": { description: "A person", content: { "application/json": { schema: { type: "object" } } } },
+          "404": { description: "Not found" },
+        },
+      },
+      put: {
+        operationId: "updatePerson",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        requestBody: { content: { "application/json": { schema: { type: "object" } } } },
+        responses: { "200": { description: "Updated", content: { "application/json": { schema: { type: "object" } } } } },
+      },
+    },
+    "/teams/{teamId}": {
+      delete: {
+        parameters: [{ name: "teamId", in: "path", required: true, schema: { type: "string" } }],
+        responses: { "204": { description: "Deleted" } },
+      },
+    },
+  },
+  components: { schemas: {} },
+};
+
+interface MockOperation {
+  (...args: unknown[]): Promise<ClientResponse> & MockMember;
+  resolves(response: Partial<ClientResponse>): void;
+  rejects(error: Error): void;
+  handle(handler: (...args: never[]) => Partial<ClientResponse>): void;
+  reset(): void;
+  calls: unknown[][];
+}
+
+/**
+ * A mocked operation, or a resource of the nested structure (`mock.people.list`)
+ */
+type MockMember = MockOperation & { [member: string]: MockMember };
+
+/**
+ * Imports the mock client with its client import pointed at a data URL
+ */
+function importMockClient(client: string): Promise<{ createMockClient(): Record<string, MockMember> }> {
+  return importModule(generateMockClient({ clientModule: toModuleUrl(client) }));
+}
+
+Deno.test("generateMockClient - imports the configured client module", () => {
+  const result = generateMockClient({ clientModule: "./api-client.ts" });
+  assertEquals(result.includes('import { createClient } from "./api-client.ts";'), true);
+  assertEquals(result.includes("export type MockClient = MockOf<ApiClient>;"), true);
+  assertEquals(result.includes("export function createMockClient(): MockClient {"), true);
+});
+
+Deno.test("createMockClient - answers from registered mocks and records calls", async () => {
+  const { createMockClient } = await importMockClient(generateClientFromOpenAPI(peopleApiData));
+  const mock = createMockClient();
+
+  assertEquals(Object.keys(mock), ["get", "post", "put", "delete", "patch"]);
+
+  mock.get.getpersonbyid.resolves({ data: { id: "42", name: "Ada" } });
+  assertEquals(await mock.get.getpersonbyid("42"), {
+    data: { id: "42", name: "Ada" },
+    ok: true,
+    status: 200,
+    statusText: "",
+  });
+  assertEquals((await mock.get.getpersonbyid("7")).data, { id: "42", name: "Ada" });
+  assertEquals(mock.get.getpersonbyid.calls, [["42"], ["7"]]);
+
+  mock.get.getpersonbyid.resolves({ status: 404, data: undefined });
+  assertEquals((await mock.get.getpersonbyid("1")).ok, false);
+
+  // Curried path parameters come first in the handler's arguments
+  mock.put.updateperson.handle((id: string, body: Record<string, unknown>) => ({ data: { ...body, id } }));
+  assertEquals((await mock.put.updateperson("42")({ name: "Grace" })).data, { name: "Grace", id: "42" });
+  assertEquals(mock.put.updateperson.calls, [["42", { name: "Grace" }]]);
+
+  mock.delete.team.rejects(new TypeError("offline"));
+  await assertRejects(() => mock.delete.team("t1")(), TypeError, "offline");
+  assertEquals(mock.delete.team.calls, [["t1"]]);
+
+  mock.get.getpersonbyid.reset();
+  assertEquals(mock.get.getpersonbyid.calls, []);
+  await assertRejects(
+    () => mock.get.getpersonbyid("42"),
+    Error,
+    "No mock for client.get.getpersonbyid, set one with mock.get.getpersonbyid.resolves(...)",
+  );
+});
+
+Deno.test("createMockClient - nested client structure", async () => {
+  const { createMockClient } = await importMockClient(
+    generateClientFromOpenAPI(peopleApiData, { structure: "nested" }),
+  );
+  const mock = createMockClient();
+
+  mock.people.list.resolves({ data: [] });
+  mock.people.get.resolves({ data: { id: "42" } });
+  mock.teams.delete.resolves({ status: 204, data: undefined });
+
+  assertEquals((await mock.people.list({ limit: 5 })).data, []);
+  assertEquals((await mock.people("42").get()).data, { id: "42" });
+  assertEquals((await mock.teams("t1").delete()).status, 204);
+  assertEquals(mock.people.list.calls, [[{ limit: 5 }]]);
+  assertEquals(mock.people.get.calls, [["42"]]);
+  await assertRejects(() => mock.people("42").update({}), Error, "No mock for client.people.update");
+});
@@ -0,0 +1,172 @@
+import { assertEquals } from "@std/assert";
+import { generateMockServer } from "../utils/mock-server-generator.ts";
+import type { OpenAPIData } from "../types/interfaces.ts";
+import { importModule } from "./test_utils.ts";
+
+const petsApiData: OpenAPIData = {
+  servers: [{ url: "https://pets.example.com/v1" }],
+  paths: {
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer", maximum: 100 } },
+          { name: "discount", in: "cookie", schema: { type: "string" } },
+        ],
+        responses: {
+          "200": {
+            description: "Pets",
+            headers: { "X-Total": { schema: { type: "integer" } } },
+            content: { "application/json": { schema: { type: "array", items: { $ref: "#/components/schemas/Pet" } } } },
+          },
+        },
+      },
+      post: {
+        operationId: "createPet",
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } },
+        },
+        responses: { "201": { description: "Created" } },
+      },
+    },
+    "/pets/{id}": {
+      get: {
+        operationId: "getPet",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        responses: {
+          "200": {
+            description: "A pet",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Pet" },
+                examples: { rex: { value: { id: 7, name: "Rex", status: "sold" } } },
+              },
+            },
+          },
+          "404": {
+            description: "Not found",
+            content: { "application/json": { schema: { type: "object", properties: { message: { type: "string" } } } } },
+          },
+        },
+      },
+    },
+    "/pets/mine": {
+      get: {
+        operationId: "getMyPet",
+        responses: { "200": { description: "Mine", content: { "text/plain": { schema: { type: "string" } } } } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: "object",
+        required: ["id", "name"],
+        properties: {
+          id: { type: "integer" },
+          name: { type: "string" },
+          status: { type: "string", enum: ["available", "sold"] },
+          born: { type: "string", format: "date-time" },
+        },
+      },
+    },
+  },
+};
+
+async function importMockServer(apiData: OpenAPIData): Promise<(request: Request) => Promise<Response>> {
+  const { handler } = await importModule<{ handler(request: Request): Promise<Response> }>(
+    generateMockServer(apiData),
+  );
+  return handler;
+}
+
+Deno.test("generateMockServer - serves Deno.serve on the configured port", () => {
+  const result = generateMockServer(petsApiData, { port: 4010 });
+  assertEquals(result.includes("export async function handler(request: Request): Promise<Response> {"), true);
+  assertEquals(result.includes("Deno.serve({ port: 4010 }, handler);"), true);
+  assertEquals(result.includes('const BASE_PATH: string = "/v1";'), true);
+});
+
+Deno.test("generateMockServer - answers with examples or schema data", async () => {
+  const handler = await importMockServer(petsApiData);
+
+  const pet = await handler(new Request("https://pets.example.com/v1/pets/7"));
+  assertEquals(pet.status, 200);
+  assertEquals(await pet.json(), { id: 7, name: "Rex", status: "sold" });
+
+  // Fake data from the schema, the same for the same request
+  const pets = await handler(new Request("https://pets.example.com/v1/pets?limit=10"));
+  const body = await pets.json();
+  assertEquals(body.length > 0, true);
+  assertEquals(body.every((item: { id: unknown; name: unknown }) => Number.isInteger(item.id) && typeof item.name === "string"), true);
+  assertEquals(Number.isInteger(Number(pets.headers.get("X-Total"))), true);
+  const again = await handler(new Request("https://pets.example.com/v1/pets?limit=10"));
+  assertEquals(await again.json(), body);
+
+  // Literal segments win over path parameters
+  const mine = await handler(new Request("https://pets.example.com/v1/pets/mine"));
+  assertEquals(mine.headers.get("Content-Type"), "text/plain");
+  assertEquals((await mine.text()).length > 0, true);
+
+  const missing = await handler(new Request("https://pets.example.com/v1/pets/7", { headers: { Prefer: "code=404" } }));
+  assertEquals(missing.status, 404);
+  assertEquals(typeof (await missing.json()).message, "string");
+
+  const created = await handler(
+    new Request("https://pets.example.com/v1/pets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: 1, name: "Rex" }),
+    }),
+  );
+  assertEquals(created.status, 201);
+  assertEquals(await created.text(), "");
+});
+
+Deno.test("generateMockServer - rejects requests that don't match the spec", async () => {
+  const handler = await importMockServer(petsApiData);
+
+  const badId = await handler(new Request("https://pets.example.com/v1/pets/rex"));
+  assertEquals(badId.status, 400);
+  assertEquals((await badId.json()).violations, [{ path: "path.id", message: "expected integer, got string" }]);
+
+  const badLimit = await handler(new Request("https://pets.example.com/v1/pets?limit=ten"));
+  assertEquals((await badLimit.json()).violations, [{ path: "query.limit", message: "expected integer, got string" }]);
+
+  const badBody = await handler(
+    new Request("https://pets.example.com/v1/pets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: "1" }),
+    }),
+  );
+  assertEquals((await badBody.json()).violations, [
+    { path: "body.name", message: "is required" },
+    { path: "body.id", message: "expected integer, got string" },
+  ]);
+
+  const noBody = await handler(new Request("https://pets.example.com/v1/pets", { method: "POST" }));
+  assertEquals((await noBody.json()).violations, [{ path: "body", message: "is required" }]);
+
+  const wrongMethod = await handler(new Request("https://pets.example.com/v1/pets/7", { method: "DELETE" }));
+  assertEquals(wrongMethod.status, 405);
+  assertEquals(wrongMethod.headers.get("Allow"), "GET");
+  await wrongMethod.body?.cancel();
+
+  const unknown = await handler(new Request("https://pets.example.com/v1/owners"));
+  assertEquals(unknown.status, 404);
+  await unknown.body?.cancel();
+
+  const malformed = await handler(new Request("https://pets.example.com/v1/pets/%E0%A4%A"));
+  assertEquals(malformed.status, 400);
+  assertEquals((await malformed.json()).message, "/pets/%E0%A4%A is not a valid percent-encoded path");
+});
+
+Deno.test("generateMockServer - keeps cookies that aren't percent-encoded", async () => {
+  const handler = await importMockServer(petsApiData);
+
+  const pets = await handler(new Request("https://pets.example.com/v1/pets", { headers: { Cookie: "discount=100%" } }));
+  assertEquals(pets.status, 200);
+  await pets.body?.cancel();
+});
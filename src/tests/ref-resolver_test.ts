@@ -0,0 +1,233 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { parse } from "@std/yaml";
+import { RefResolutionError, resolveRefs } from "../utils/ref-resolver.ts";
+import type { OpenAPIData, OpenAPIOperation } from "../types/interfaces.ts";
+
+const apiDataWithComponentRefs = {
+  servers: [{ url: "https://api.example.com" }],
+  paths: {
+    "/todos/{id}": {
+      get: {
+        operationId: "getTodo",
+        parameters: [{ $ref: "#/components/parameters/TodoId" }],
+        responses: {
+          "200": { $ref: "#/components/responses/TodoResponse" },
+        },
+      },
+      put: {
+        operationId: "updateTodo",
+        requestBody: { $ref: "#/components/requestBodies/TodoBody" },
+        responses: {},
+      },
+    },
+  },
+  components: {
+    parameters: {
+      TodoId: { name: "id", in: "path", required: true, schema: { type: "string" } },
+    },
+    responses: {
+      TodoResponse: {
+        description: "A todo",
+        content: {
+          "application/json": { schema: { $ref: "#/components/schemas/Todo" } },
+        },
+      },
+    },
+    requestBodies: {
+      TodoBody: {
+        content: {
+          "application/json": { schema: { $ref: "#/components/schemas/Todo" } },
+        },
+      },
+    },
+    schemas: {
+      Todo: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          parent: { $ref: "#/components/schemas/Todo" },
+        },
+      },
+    },
+  },
+} as unknown as OpenAPIData;
+
+function getOperation(apiData: OpenAPIData, path: string, method: string): OpenAPIOperation {
+  return (apiData.paths[path] as Record<string, OpenAPIOperation>)[method];
+}
+
+Deno.test("resolveRefs - inlines parameter, response and requestBody refs", async () => {
+  const result = await resolveRefs(apiDataWithComponentRefs);
+  const operation = getOperation(result, "/todos/{id}", "get");
+
+  assertEquals(operation.parameters![0].name, "id");
+  assertEquals(operation.parameters![0].in, "path");
+  assertEquals(operation.responses!["200"].description, "A todo");
+  assertEquals(
+    operation.responses!["200"].content!["application/json"].schema!.$ref,
+    "#/components/schemas/Todo",
+  );
+  assertEquals(
+    getOperation(result, "/todos/{id}", "put").requestBody!.content!["application/json"].schema!.$ref,
+    "#/components/schemas/Todo",
+  );
+});
+
+Deno.test("resolveRefs - keeps recursive schema refs as named types", async () => {
+  const result = await resolveRefs(apiDataWithComponentRefs);
+
+  assertEquals(
+    result.components.schemas.Todo.properties!.parent.$ref,
+    "#/components/schemas/Todo",
+  );
+});
+
+Deno.test("resolveRefs - does not mutate the input document", async () => {
+  await resolveRefs(apiDataWithComponentRefs);
+  const operation = getOperation(apiDataWithComponentRefs, "/todos/{id}", "get");
+
+  assertEquals(operation.parameters![0].$ref, "#/components/parameters/TodoId");
+});
+
+Deno.test("resolveRefs - reports unresolved refs with a JSON pointer", async () => {
+  const apiData = {
+    servers: [{ url: "https://api.example.com" }],
+    paths: {
+      "/todos": {
+        get: {
+          parameters: [{ $ref: "#/components/parameters/Missing" }],
+          responses: {},
+        },
+      },
+    },
+    components: { schemas: {} },
+  } as unknown as OpenAPIData;
+
+  const error = await assertRejects(
+    () => resolveRefs(apiData),
+    RefResolutionError,
+    'Unresolved $ref "#/components/parameters/Missing"',
+  );
+  assertEquals(
+    (error as RefResolutionError).pointer,
+    "#/paths/~1todos/get/parameters/0",
+  );
+});
+
+Deno.test("resolveRefs - reports malformed percent-encoding in a ref", async () => {
+  const apiData = {
+    servers: [{ url: "https://api.example.com" }],
+    paths: {
+      "/todos": {
+        get: {
+          parameters: [{ $ref: "#/components/parameters/Bad%zz" }],
+          responses: {},
+        },
+      },
+    },
+    components: { schemas: {} },
+  } as unknown as OpenAPIData;
+
+  const error = await assertRejects(
+    () => resolveRefs(apiData),
+    RefResolutionError,
+    'Malformed percent-encoding in $ref "#/components/parameters/Bad%zz"',
+  );
+  assertEquals(
+    (error as RefResolutionError).pointer,
+    "#/paths/~1todos/get/parameters/0",
+  );
+});
+
+Deno.test("resolveRefs - detects circular non-schema refs", async () => {
+  const apiData = {
+    servers: [{ url: "https://api.example.com" }],
+    paths: {
+      "/todos": {
+        get: {
+          responses: { "200": { $ref: "#/components/responses/A" } },
+        },
+      },
+    },
+    components: {
+      schemas: {},
+      responses: {
+        A: { $ref: "#/components/responses/B" },
+        B: { $ref: "#/components/responses/A" },
+      },
+    },
+  } as unknown as OpenAPIData;
+
+  await assertRejects(
+    () => resolveRefs(apiData),
+    RefResolutionError,
+    "Circular $ref",
+  );
+});
+
+Deno.test("resolveRefs - rejects external refs without a spec path", async () => {
+  const apiData = {
+    servers: [{ url: "https://api.example.com" }],
+    paths: {},
+    components: {
+      schemas: {
+        Order: { $ref: "common.yaml#/components/schemas/Order" },
+      },
+    },
+  } as unknown as OpenAPIData;
+
+  await assertRejects(
+    () => resolveRefs(apiData),
+    RefResolutionError,
+    "without a spec path",
+  );
+});
+
+Deno.test("resolveRefs - resolves refs across files", async () => {
+  const specPath = "spec-files/multi-file/openapi.yaml";
+  const apiData = parse(await Deno.readTextFile(specPath)) as OpenAPIData;
+
+  const result = await resolveRefs(apiData, specPath);
+  const listOrders = getOperation(result, "/orders", "get");
+
+  // External parameter and response components are inlined
+  assertEquals(listOrders.parameters![0].name, "limit");
+  assertEquals(listOrders.parameters![1].name, "X-Request-Id");
+  assertEquals(
+    listOrders.responses!["400"].content!["application/json"].schema!.$ref,
+    "#/components/schemas/Error",
+  );
+
+  // External schemas are copied into components.schemas
+  assertEquals(
+    result.components.schemas.Order.properties!.customer.$ref,
+    "#/components/schemas/Customer",
+  );
+  assertEquals(
+    result.components.schemas.Customer.properties!.referredBy.$ref,
+    "#/components/schemas/Customer",
+  );
+  assertEquals(result.components.schemas.Error.properties!.message.type, "string");
+});
+
+Deno.test({
+  name: "resolveRefs - resolves external refs from directories with URL characters",
+  ignore: Deno.permissions.querySync({ name: "write" }).state !== "granted",
+  fn: async () => {
+    const tempDir = await Deno.makeTempDir();
+    const directory = `${tempDir}/specs #1 100%`;
+    await Deno.mkdir(directory);
+    try {
+      for (const file of ["openapi.yaml", "common.yaml"]) {
+        await Deno.copyFile(`spec-files/multi-file/${file}`, `${directory}/${file}`);
+      }
+      const specPath = `${directory}/openapi.yaml`;
+      const apiData = parse(await Deno.readTextFile(specPath)) as OpenAPIData;
+
+      const result = await resolveRefs(apiData, specPath);
+      assertEquals(getOperation(result, "/orders", "get").parameters![1].name, "X-Request-Id");
+    } finally {
+      await Deno.remove(tempDir, { recursive: true });
+    }
+  },
+});
@@ -11,6 +11,14 @@
 const testFiles = {
   "type-generators": "src/tests/type-generators_test.ts",
   "dynamic-client-generator": "src/tests/dynamic-client-generator_test.ts",
+  "dynamic-runtime-client": "src/tests/dynamic-runtime-client_test.ts",
+  "ref-resolver": "src/tests/ref-resolver_test.ts",
+  "swagger-converter": "src/tests/swagger-converter_test.ts",
+  "spec-validator": "src/tests/spec-validator_test.ts",
+  "validator-generators": "src/tests/validator-generators_test.ts",
+  "fake-data-generators": "src/tests/fake-data-generators_test.ts",
+  "mock-server-generator": "src/tests/mock-server-generator_test.ts",
+  "mock-client-generator": "src/tests/mock-client-generator_test.ts",
 };
 
 async function runTests(filter?: string) {
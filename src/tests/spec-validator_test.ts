@@ -0,0 +1,202 @@
+import {
+  assertEquals,
+  assertStringIncludes,
+} from "@std/assert";
+import { parse } from "@std/yaml";
+import {
+  formatDiagnostic,
+  locatePointer,
+  SpecValidationError,
+  validateSpec,
+} from "../utils/spec-validator.ts";
+
+const validApiData = {
+  openapi: "3.0.3",
+  servers: [{ url: "https://api.example.com" }],
+  paths: {
+    "/todos/{id}": {
+      parameters: [
+        { name: "id", in: "path", required: true, schema: { type: "string" } },
+      ],
+      get: {
+        operationId: "getTodo",
+        responses: { "200": { description: "OK" } },
+      },
+    },
+  },
+  components: { schemas: {} },
+};
+
+Deno.test("validateSpec - valid spec has no diagnostics", () => {
+  assertEquals(validateSpec(validApiData), []);
+});
+
+Deno.test("validateSpec - missing components and servers are warnings", () => {
+  const diagnostics = validateSpec({ openapi: "3.0.3", paths: {} });
+
+  assertEquals(diagnostics.map((d) => d.severity), ["warning", "warning"]);
+  assertStringIncludes(diagnostics[0].message, '"servers"');
+  assertStringIncludes(diagnostics[1].message, '"components"');
+});
+
+Deno.test("validateSpec - server without url", () => {
+  const diagnostics = validateSpec({
+    ...validApiData,
+    servers: [{ url: "https://api.example.com" }, { description: "staging" }],
+  });
+
+  assertEquals(diagnostics, [{
+    severity: "error",
+    pointer: "#/servers/1",
+    message: 'Server is missing "url"',
+  }]);
+});
+
+Deno.test("validateSpec - undeclared path parameter", () => {
+  const diagnostics = validateSpec({
+    ...validApiData,
+    paths: {
+      "/todos/{id}": {
+        put: { operationId: "updateTodo", responses: {} },
+      },
+    },
+  });
+
+  assertEquals(diagnostics.length, 1);
+  assertEquals(diagnostics[0].severity, "error");
+  assertEquals(diagnostics[0].pointer, "#/paths/~1todos~1{id}/put");
+  assertStringIncludes(diagnostics[0].message, '"{id}"');
+});
+
+Deno.test("validateSpec - path parameter missing from template", () => {
+  const diagnostics = validateSpec({
+    ...validApiData,
+    paths: {
+      "/todos": {
+        get: {
+          parameters: [{ name: "id", in: "path", required: true }],
+          responses: {},
+        },
+      },
+    },
+  });
+
+  assertEquals(diagnostics.length, 1);
+  assertEquals(diagnostics[0].pointer, "#/paths/~1todos/get/parameters/0");
+  assertStringIncludes(diagnostics[0].message, "does not appear in the path template");
+});
+
+Deno.test("validateSpec - path parameters declared through refs", () => {
+  const diagnostics = validateSpec({
+    ...validApiData,
+    paths: {
+      "/todos/{id}": {
+        get: {
+          parameters: [{ $ref: "#/components/parameters/TodoId" }],
+          responses: {},
+        },
+      },
+    },
+    components: {
+      schemas: {},
+      parameters: { TodoId: { name: "id", in: "path", required: true } },
+    },
+  });
+
+  assertEquals(diagnostics, []);
+});
+
+Deno.test("validateSpec - path parameters declared through refs into other files", () => {
+  const diagnostics = validateSpec({
+    ...validApiData,
+    paths: {
+      "/todos/{id}": {
+        parameters: [{ $ref: "common.yaml#/components/parameters/Id" }],
+        get: { responses: {} },
+      },
+      "/lists/{listId}": {
+        get: {
+          parameters: [{ $ref: "#/components/parameters/Missing" }],
+          responses: {},
+        },
+      },
+    },
+  });
+
+  // Only the unresolved local ref is reported, the template params may be declared by either ref
+  assertEquals(diagnostics.map((d) => d.pointer), ["#/paths/~1lists~1{listId}/get/parameters/0"]);
+});
+
+Deno.test("validateSpec - unresolved refs, duplicate operationIds and unknown security schemes", () => {
+  const diagnostics = validateSpec({
+    ...validApiData,
+    security: [{ bearerAuth: [] }],
+    paths: {
+      "/a": {
+        get: {
+          operationId: "same",
+          responses: { "200": { $ref: "#/components/responses/Missing" } },
+        },
+      },
+      "/b": {
+        get: { operationId: "same", responses: {} },
+      },
+    },
+  });
+
+  assertEquals(diagnostics.map((d) => d.pointer), [
+    "#/paths/~1b/get/operationId",
+    "#/security/0/bearerAuth",
+    "#/paths/~1a/get/responses/200",
+  ]);
+  assertEquals(diagnostics.every((d) => d.severity === "error"), true);
+});
+
+Deno.test("validateSpec - adds line and column for YAML sources", () => {
+  const yaml = `openapi: 3.0.3
+servers:
+  - url: https://api.example.com
+  - description: staging
+paths:
+  /todos/{id}:
+    put:
+      responses: {}
+components:
+  schemas: {}
+`;
+
+  const diagnostics = validateSpec(parse(yaml), yaml);
+
+  assertEquals(diagnostics.map(formatDiagnostic), [
+    'error #/servers/1 (4:3): Server is missing "url"',
+    'error #/paths/~1todos~1{id}/put (7:5): Path parameter "{id}" is not declared as an "in: path" parameter',
+  ]);
+});
+
+Deno.test("locatePointer - nested sequence items", () => {
+  const yaml = `paths:
+  /todos:
+    get:
+      parameters:
+        - name: limit
+          in: query
+        - name: "offset"
+          in: query
+`;
+
+  assertEquals(locatePointer(yaml, "#/paths/~1todos/get/parameters/1"), { line: 7, column: 9 });
+  assertEquals(locatePointer(yaml, "#/paths/~1todos/get/parameters/1/in"), { line: 8, column: 11 });
+  // Unknown segments fall back to the closest ancestor
+  assertEquals(locatePointer(yaml, "#/paths/~1todos/post"), { line: 2, column: 3 });
+});
+
+Deno.test("SpecValidationError - lists the errors", () => {
+  const error = new SpecValidationError([
+    { severity: "error", pointer: "#/servers/0", message: 'Server is missing "url"' },
+    { severity: "warning", pointer: "#", message: 'Missing "openapi" version field' },
+  ]);
+
+  assertEquals(error.diagnostics.length, 2);
+  assertStringIncludes(error.message, "1 error(s)");
+  assertStringIncludes(error.message, '#/servers/0: Server is missing "url"');
+});
@@ -0,0 +1,193 @@
+import { assertEquals } from "@std/assert";
+import {
+  convertSwaggerToOpenAPI,
+  isSwagger2,
+} from "../utils/swagger-converter.ts";
+import { resolveRefs } from "../utils/ref-resolver.ts";
+import { generateClientFromOpenAPI } from "../utils/dynamic-client-generator.ts";
+import type {
+  OpenAPIMediaType,
+  OpenAPIParameter,
+  OpenAPIResponse,
+  OpenAPISchema,
+  SecurityScheme,
+  SwaggerData,
+} from "../types/interfaces.ts";
+import { type ClientModule, importModule } from "./test_utils.ts";
+
+const swagger: SwaggerData = JSON.parse(
+  await Deno.readTextFile("spec-files/petstore-swagger2.json"),
+);
+
+/**
+ * The converted petstore document as the tests read it, with the components
+ * the converter adds next to the schemas
+ */
+interface ConvertedDocument {
+  paths: Record<string, Record<string, ConvertedOperation>>;
+  components: {
+    schemas: Record<string, OpenAPISchema>;
+    parameters: Record<string, OpenAPIParameter>;
+    requestBodies: Record<string, { content: Record<string, OpenAPIMediaType> }>;
+    securitySchemes: Record<string, SecurityScheme>;
+  };
+}
+
+interface ConvertedOperation {
+  parameters: Partial<OpenAPIParameter>[];
+  requestBody: { $ref?: string; required?: boolean; content: Record<string, OpenAPIMediaType> };
+  responses: Record<string, OpenAPIResponse & { $ref?: string }>;
+}
+
+function convertPetstore(): ConvertedDocument {
+  return convertSwaggerToOpenAPI(swagger) as unknown as ConvertedDocument;
+}
+
+Deno.test("isSwagger2", () => {
+  assertEquals(isSwagger2(swagger), true);
+  assertEquals(isSwagger2({ openapi: "3.0.0" }), false);
+  assertEquals(isSwagger2(null), false);
+});
+
+Deno.test("convertSwaggerToOpenAPI - host, basePath and schemes become servers", () => {
+  const result = convertSwaggerToOpenAPI(swagger);
+
+  assertEquals(result.openapi, "3.0.3");
+  assertEquals(result.servers as { url: string }[], [
+    { url: "https://petstore.example.com/v1" },
+    { url: "http://petstore.example.com/v1" },
+  ]);
+});
+
+Deno.test("convertSwaggerToOpenAPI - servers without host use basePath", () => {
+  const result = convertSwaggerToOpenAPI({
+    swagger: "2.0",
+    basePath: "/api",
+    paths: {},
+  });
+
+  assertEquals(result.servers, [{ url: "/api" }]);
+});
+
+Deno.test("convertSwaggerToOpenAPI - definitions move to components.schemas", () => {
+  const result = convertPetstore();
+
+  assertEquals(Object.keys(result.components.schemas), ["Pet", "Error"]);
+  assertEquals(result.components.schemas.Pet.properties!.tag.nullable, true);
+  assertEquals(
+    result.paths["/pets"].get.responses["200"].content!["application/json"].schema!.items.$ref,
+    "#/components/schemas/Pet",
+  );
+});
+
+Deno.test("convertSwaggerToOpenAPI - body parameters become requestBody", () => {
+  const result = convertPetstore();
+
+  const updatePet = result.paths["/pets/{petId}"].put;
+  assertEquals(updatePet.parameters, [{ $ref: "#/components/parameters/PetId" }]);
+  assertEquals(updatePet.requestBody.required, true);
+  assertEquals(
+    updatePet.requestBody.content["application/json"].schema!.$ref,
+    "#/components/schemas/Pet",
+  );
+
+  // Shared body parameters become requestBodies components
+  assertEquals(
+    result.paths["/pets"].post.requestBody.$ref,
+    "#/components/requestBodies/PetBody",
+  );
+  assertEquals(
+    result.components.requestBodies.PetBody.content["application/json"].schema!.$ref,
+    "#/components/schemas/Pet",
+  );
+});
+
+Deno.test("convertSwaggerToOpenAPI - formData parameters become a form requestBody", () => {
+  const result = convertPetstore();
+
+  const uploadPhoto = result.paths["/pets/{petId}/photo"].post;
+  assertEquals(uploadPhoto.parameters.map((p) => p.name), ["petId"]);
+  assertEquals(uploadPhoto.requestBody.content["multipart/form-data"].schema, {
+    type: "object",
+    properties: {
+      caption: { type: "string" },
+      file: { type: "string", format: "binary" },
+    },
+    required: ["file"],
+  });
+});
+
+Deno.test("convertSwaggerToOpenAPI - parameters get schemas and styles", () => {
+  const result = convertPetstore();
+
+  const [limit, tags] = result.paths["/pets"].get.parameters;
+  assertEquals(limit, { name: "limit", in: "query", schema: { type: "integer" } });
+  assertEquals(tags.schema, { type: "array", items: { type: "string" } });
+  assertEquals(tags.style, "form");
+  assertEquals(tags.explode, true);
+
+  assertEquals(result.components.parameters.PetId.schema, {
+    type: "integer",
+    format: "int64",
+  });
+});
+
+Deno.test("convertSwaggerToOpenAPI - path-level parameter refs are kept", () => {
+  const result = convertPetstore();
+
+  assertEquals(result.paths["/pets/{petId}"].get.parameters, [
+    { $ref: "#/components/parameters/PetId" },
+  ]);
+  assertEquals(
+    result.paths["/pets/{petId}"].get.responses["404"].$ref,
+    "#/components/responses/NotFound",
+  );
+});
+
+Deno.test("convertSwaggerToOpenAPI - securityDefinitions become securitySchemes", () => {
+  const result = convertPetstore();
+
+  assertEquals(result.components.securitySchemes.api_key, {
+    type: "apiKey",
+    name: "X-API-Key",
+    in: "header",
+  });
+  assertEquals(result.components.securitySchemes.petstore_auth.flows, {
+    clientCredentials: {
+      tokenUrl: "https://petstore.example.com/oauth/token",
+      scopes: { "read:pets": "Read pets", "write:pets": "Modify pets" },
+    },
+  });
+});
+
+Deno.test("convertSwaggerToOpenAPI - converted spec generates a client", async () => {
+  const apiData = await resolveRefs(convertSwaggerToOpenAPI(swagger));
+  const result = generateClientFromOpenAPI(apiData);
+
+  assertEquals(result.includes("'https://petstore.example.com/v1'"), true);
+  assertEquals(result.includes("listpets: async (params: { limit?: number; tags?: string[] } = {}, options: RequestOptions = {})"), true);
+  assertEquals(result.includes("createpet: async (body: Pet, options: RequestOptions = {})"), true);
+});
+
+Deno.test("convertSwaggerToOpenAPI - a server per scheme makes a Servers union", async () => {
+  const apiData = await resolveRefs(convertSwaggerToOpenAPI(swagger));
+  const result = generateClientFromOpenAPI(apiData);
+
+  assertEquals(
+    result.includes("type Servers = 'https://petstore.example.com/v1' | 'http://petstore.example.com/v1';"),
+    true,
+  );
+
+  // The generated client parses and runs
+  const { createClient } = await importModule<ClientModule>(result);
+  const urls: string[] = [];
+  const client = createClient({
+    baseUrl: "http://petstore.example.com/v1",
+    fetch: (url: string) => {
+      urls.push(url);
+      return Promise.resolve(new Response("[]", { headers: { "Content-Type": "application/json" } }));
+    },
+  });
+  assertEquals((await client.get.listpets({ limit: 2 })).data, []);
+  assertEquals(urls, ["http://petstore.example.com/v1/pets?limit=2"]);
+});
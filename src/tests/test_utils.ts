@@ -0,0 +1,42 @@
+/**
+ * Helpers for tests that import generated code. Tests can't write files, so
+ * generated modules are imported from data URLs. Those imports aren't
+ * type-checked, the shapes below describe what the tests use of them.
+ */
+
+export function toModuleUrl(code: string): string {
+  const source = new TextEncoder().encode(code);
+  return `data:application/typescript;base64,${btoa(String.fromCharCode(...source))}`;
+}
+
+/**
+ * @example
+ * ```typescript
+ * const { createClient } = await importModule<ClientModule>(generateClientFromOpenAPI(apiData));
+ * ```
+ */
+export function importModule<T>(code: string): Promise<T> {
+  return import(toModuleUrl(code));
+}
+
+export interface ClientResponse {
+  data: unknown;
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A member of a generated client: `client.get.pets(params)`,
+ * `client.put.pet(id)(body)`, `client.orgs(id).members.list()`. Calls resolve
+ * to a response, or return the next step of a curried or nested call.
+ */
+export interface ClientMember {
+  (...args: unknown[]): Promise<ClientResponse> & ClientMember;
+  [member: string]: ClientMember;
+}
+
+export interface ClientModule {
+  createClient(config: { baseUrl: string; [option: string]: unknown }): ClientMember;
+}
@@ -1,7 +1,8 @@
 import {
   assertEquals,
   assertExists,
-} from "https://deno.land/std@0.224.0/assert/mod.ts";
+} from "@std/assert";
+import { parse } from "@std/yaml";
 import {
   convertSchemaToType,
   generateTypeDefinition,
@@ -210,3 +211,106 @@ Deno.test("convertSchemaToType - complex anyOf with objects", () => {
   const result = convertSchemaToType(schema);
   assertEquals(result, 'string | { message?: string }');
 });
+
+Deno.test("convertSchemaToType - nullable (OpenAPI 3.0)", () => {
+  assertEquals(convertSchemaToType({ type: "string", nullable: true }), "string | null");
+  assertEquals(
+    convertSchemaToType({ $ref: "#/components/schemas/User", nullable: true }),
+    "User | null",
+  );
+  assertEquals(
+    convertSchemaToType({ type: "array", items: { type: "string", nullable: true } }),
+    "(string | null)[]",
+  );
+});
+
+Deno.test("convertSchemaToType - type arrays (OpenAPI 3.1)", () => {
+  assertEquals(convertSchemaToType({ type: ["string", "null"] }), "string | null");
+  assertEquals(convertSchemaToType({ type: ["integer", "number"] }), "number");
+  assertEquals(
+    convertSchemaToType({
+      type: ["object", "null"],
+      properties: { id: { type: "string" } },
+    }),
+    "{ id?: string } | null",
+  );
+});
+
+Deno.test("convertSchemaToType - const", () => {
+  assertEquals(convertSchemaToType({ const: "book" }), '"book"');
+  assertEquals(convertSchemaToType({ const: 42 }), "42");
+  assertEquals(convertSchemaToType({ const: null }), "null");
+});
+
+Deno.test("convertSchemaToType - enum with type", () => {
+  assertEquals(
+    convertSchemaToType({ type: "string", enum: ["asc", "desc"] }),
+    '"asc" | "desc"',
+  );
+  assertEquals(
+    convertSchemaToType({ type: ["string", "null"], enum: ["asc", null] }),
+    '"asc" | null',
+  );
+});
+
+Deno.test("convertSchemaToType - prefixItems tuples", () => {
+  assertEquals(
+    convertSchemaToType({
+      type: "array",
+      prefixItems: [{ type: "number" }, { type: "number" }],
+      items: false,
+    }),
+    "[number, number]",
+  );
+  assertEquals(
+    convertSchemaToType({
+      type: "array",
+      prefixItems: [{ type: "string" }],
+      items: { type: "integer" },
+    }),
+    "[string, ...number[]]",
+  );
+  assertEquals(
+    convertSchemaToType({ type: "array", prefixItems: [{ type: "string" }] }),
+    "[string, ...any[]]",
+  );
+});
+
+Deno.test("convertSchemaToType - not", () => {
+  assertEquals(convertSchemaToType({ not: { type: "string" } }), "unknown");
+  assertEquals(convertSchemaToType({ type: "number", not: { const: 0 } }), "number");
+});
+
+Deno.test("convertSchemaToType - $defs refs", () => {
+  assertEquals(
+    convertSchemaToType({ $ref: "#/components/schemas/Book/$defs/Shelf" }),
+    "BookShelf",
+  );
+});
+
+Deno.test("createTypesFromApiData - OpenAPI 3.1 fixture", async () => {
+  const apiData = parse(
+    await Deno.readTextFile("spec-files/openapi-3.1.yaml"),
+  ) as OpenAPIData;
+
+  const result = createTypesFromApiData(apiData);
+
+  assertEquals(result.includes("subtitle?: string | null;"), true);
+  assertEquals(result.includes('kind: "book";'), true);
+  assertEquals(result.includes("pages?: number | null;"), true);
+  assertEquals(result.includes("dimensions?: [number, number];"), true);
+  assertEquals(result.includes("ratings?: [string, ...number[]];"), true);
+  assertEquals(result.includes("shelf?: BookShelf;"), true);
+  assertEquals(result.includes("notDraft?: unknown;"), true);
+  assertEquals(result.includes("export interface BookShelf {"), true);
+  assertEquals(result.includes('section?: "fiction" | "reference" | null;'), true);
+  assertEquals(
+    result.includes("export type LegacyAuthor = { name?: string | null } | null;"),
+    true,
+  );
+});
+
+Deno.test("convertSchemaToType - binary strings are Blobs", () => {
+  assertEquals(convertSchemaToType({ type: "string", format: "binary" }), "Blob");
+  assertEquals(convertSchemaToType({ type: "string", format: "byte" }), "string");
+});
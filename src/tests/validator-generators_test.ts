@@ -0,0 +1,169 @@
+import { assertEquals } from "@std/assert";
+import { parse } from "@std/yaml";
+import { createValidatorsFromApiData } from "../utils/validator-generators.ts";
+import { createTypesFromApiData } from "../utils/type-generators.ts";
+import { generateClientFromOpenAPI } from "../utils/dynamic-client-generator.ts";
+import type { OpenAPIData } from "../types/interfaces.ts";
+import { type ClientModule, importModule, toModuleUrl } from "./test_utils.ts";
+
+const petsApiData: OpenAPIData = {
+  servers: [{ url: "https://pets.example.com" }],
+  paths: {
+    "/pets/{id}": {
+      get: {
+        operationId: "getPet",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "200": { description: "A pet", content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } },
+        },
+      },
+    },
+    "/pets": {
+      post: {
+        operationId: "createPet",
+        requestBody: { content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } },
+        responses: {
+          "201": { description: "Created", content: { "application/json": { schema: { $ref: "#/components/schemas/Pet" } } } },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        type: "object",
+        required: ["id", "name"],
+        properties: {
+          id: { type: "integer" },
+          name: { type: "string" },
+          status: { type: "string", enum: ["available", "sold"] },
+          tags: { type: "array", items: { $ref: "#/components/schemas/Tag" } },
+          owner: { type: "object", nullable: true, properties: { "e-mail": { type: "string" } } },
+        },
+      },
+      Tag: { type: "object", required: ["label"], properties: { label: { type: "string" } } },
+    },
+  },
+};
+
+interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+type Validator = (value: unknown) => SchemaViolation[];
+type Guard = (value: unknown) => boolean;
+
+Deno.test("createTypesFromApiData - validators are opt-in", () => {
+  assertEquals(createTypesFromApiData(petsApiData).includes("__validateSchema"), false);
+
+  const result = createTypesFromApiData(petsApiData, { validators: true });
+  assertEquals(result.includes("export interface Pet {"), true);
+  assertEquals(result.includes("export function __validateSchema(schema: any, value: unknown, path = \"$\"): __SchemaViolation[]"), true);
+  assertEquals(result.includes("export const validatePet = (value: unknown): __SchemaViolation[] => {"), true);
+  assertEquals(result.includes("export const isTag = (value: unknown): value is Tag => {"), true);
+});
+
+Deno.test("createValidatorsFromApiData - reports violations with their paths", async () => {
+  const { validatePet, isPet } = await importModule<{ validatePet: Validator; isPet: Guard }>(
+    createTypesFromApiData(petsApiData, { validators: true }),
+  );
+
+  assertEquals(isPet({ id: 1, name: "Rex", tags: [{ label: "good" }], owner: null }), true);
+  assertEquals(validatePet({ id: 1.5, status: "lost", tags: [{}], owner: { "e-mail": 42 } }), [
+    { path: "$.name", message: "is required" },
+    { path: "$.id", message: "expected integer, got number" },
+    { path: "$.status", message: 'expected one of "available", "sold", got "lost"' },
+    { path: "$.tags[0].label", message: "is required" },
+    { path: '$.owner["e-mail"]', message: "expected string, got number" },
+  ]);
+  assertEquals(validatePet([]), [{ path: "$", message: "expected object, got array" }]);
+});
+
+Deno.test("createValidatorsFromApiData - schemas named like the runtime helpers", async () => {
+  const apiData: OpenAPIData = {
+    servers: [{ url: "https://pets.example.com" }],
+    paths: {},
+    components: {
+      schemas: {
+        Schema: { type: "object", required: ["name"], properties: { name: { type: "string" } } },
+        SchemaViolation: { type: "object", properties: { code: { type: "integer" } } },
+      },
+    },
+  };
+
+  const types = createTypesFromApiData(apiData, { validators: true });
+  assertEquals(types.includes("export interface SchemaViolation {"), true);
+
+  const { validateSchema, isSchemaViolation } = await importModule<{
+    validateSchema: Validator;
+    isSchemaViolation: Guard;
+  }>(types);
+  assertEquals(validateSchema({}), [{ path: "$.name", message: "is required" }]);
+  assertEquals(isSchemaViolation({ code: 1 }), true);
+  assertEquals(isSchemaViolation({ code: "1" }), false);
+});
+
+Deno.test("createValidatorsFromApiData - OpenAPI 3.1 fixture", async () => {
+  const apiData = parse(
+    await Deno.readTextFile("spec-files/openapi-3.1.yaml"),
+  ) as OpenAPIData;
+
+  const validators = createValidatorsFromApiData(apiData);
+  // $defs get validators of their own
+  assertEquals(validators.includes('__validateSchema({ $ref: "#/components/schemas/Book/$defs/Shelf" }, value)'), true);
+
+  const { validateBookShelf } = await importModule<{ validateBookShelf: Validator }>(
+    createTypesFromApiData(apiData, { validators: true }),
+  );
+  assertEquals(validateBookShelf({ section: null }), []);
+  assertEquals(validateBookShelf({ section: "poetry" }).length, 1);
+});
+
+Deno.test("generateClientFromOpenAPI - validate config checks bodies", async () => {
+  const client = generateClientFromOpenAPI(petsApiData, { validators: true });
+  assertEquals(client.includes('import { type __SchemaViolation, __validateSchema } from "./types.ts";'), true);
+  assertEquals(client.includes('validate?: "off" | "warn" | "throw";'), true);
+  assertEquals(
+    client.includes('if (response.ok) checkSchema(this.config.validate, "getPet response", data, {"$ref":"#/components/schemas/Pet"});'),
+    true,
+  );
+  assertEquals(client.includes("checkSchema(this.config.validateRequests ? this.config.validate : \"off\""), true);
+  assertEquals(generateClientFromOpenAPI(petsApiData).includes("checkSchema"), false);
+
+  // Point the client at the validators module instead of ./types.ts
+  const types = createTypesFromApiData(petsApiData, { validators: true });
+  const { createClient, SchemaValidationError } = await importModule<
+    ClientModule & { SchemaValidationError: new (...args: never[]) => Error }
+  >(
+    client.replaceAll('"./types.ts"', `"${toModuleUrl(types)}"`),
+  );
+
+  const originalFetch = globalThis.fetch;
+  const originalWarn = console.warn;
+  const warnings: string[] = [];
+  globalThis.fetch = () => Promise.resolve(new Response(JSON.stringify({ id: "7", name: "Rex" })));
+  console.warn = (message: string) => warnings.push(message);
+
+  try {
+    // Off by default
+    await createClient({ baseUrl: "https://pets.example.com" }).get.getpet("7");
+    assertEquals(warnings, []);
+
+    await createClient({ baseUrl: "https://pets.example.com", validate: "warn" }).get.getpet("7");
+    assertEquals(warnings, ["getPet response does not match the spec:\n  $.id expected integer, got string"]);
+
+    const strict = createClient({ baseUrl: "https://pets.example.com", validate: "throw", validateRequests: true });
+    let thrown: unknown;
+    try {
+      await strict.post.createpet({ id: 1 });
+    } catch (error) {
+      thrown = error;
+    }
+    assertEquals(thrown instanceof SchemaValidationError, true);
+    assertEquals((thrown as { violations: SchemaViolation[] }).violations, [{ path: "$.name", message: "is required" }]);
+  } finally {
+    globalThis.fetch = originalFetch;
+    console.warn = originalWarn;
+  }
+});
@@ -1,13 +1,88 @@
 export interface OpenAPISchema {
-  type?: string;
+  /** A single type, or a list of types in OpenAPI 3.1 (e.g. `["string", "null"]`) */
+  type?: string | string[];
+  format?: string;
   properties?: Record<string, any>;
   required?: string[];
   items?: any;
+  /** Tuple item schemas (JSON Schema 2020-12) */
+  prefixItems?: OpenAPISchema[];
+  /** Schema for items past a tuple's `items` array, or `false` to close it */
+  additionalItems?: OpenAPISchema | boolean;
   enum?: any[];
+  const?: unknown;
+  /** OpenAPI 3.0 nullability, replaced by `type: [..., "null"]` in 3.1 */
+  nullable?: boolean;
+  anyOf?: OpenAPISchema[];
+  oneOf?: OpenAPISchema[];
+  allOf?: OpenAPISchema[];
+  not?: OpenAPISchema;
+  $defs?: Record<string, OpenAPISchema>;
+  $ref?: string;
+}
+
+export interface OAuthFlow {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: Record<string, string>;
+}
+
+export interface SecurityScheme {
+  type: string;
+  scheme?: string;
+  name?: string;
+  in?: string;
+  description?: string;
+  flows?: {
+    implicit?: OAuthFlow;
+    password?: OAuthFlow;
+    clientCredentials?: OAuthFlow;
+    authorizationCode?: OAuthFlow;
+  };
+}
+
+export interface OpenAPIParameter {
+  name: string;
+  in: string;
+  required?: boolean;
+  schema?: OpenAPISchema;
+  style?: string;
+  explode?: boolean;
+  allowReserved?: boolean;
   $ref?: string;
 }
 
+export interface OpenAPIMediaType {
+  schema?: OpenAPISchema;
+}
+
+export interface OpenAPIHeader {
+  required?: boolean;
+  schema?: OpenAPISchema;
+}
+
+export interface OpenAPIResponse {
+  description?: string;
+  headers?: Record<string, OpenAPIHeader>;
+  content?: Record<string, OpenAPIMediaType>;
+}
+
+export interface OpenAPIOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: OpenAPIParameter[];
+  requestBody?: {
+    required?: boolean;
+    content?: Record<string, OpenAPIMediaType>;
+  };
+  responses?: Record<string, OpenAPIResponse>;
+  security?: Array<Record<string, string[]>>;
+}
+
 export interface OpenAPIData {
+  openapi?: string;
   servers: [
     {
       "url": string;
@@ -17,12 +92,55 @@ export interface OpenAPIData {
   security?: Array<Record<string, string[]>>;
   components: {
     schemas: Record<string, OpenAPISchema>;
-    securitySchemes?: Record<string, {
-      type: string;
-      scheme?: string;
-      name?: string;
-      in?: string;
-      description?: string;
-    }>;
+    securitySchemes?: Record<string, SecurityScheme>;
   };
 }
+
+export interface SwaggerParameter {
+  name?: string;
+  in?: string;
+  $ref?: string;
+  description?: string;
+  required?: boolean;
+  allowEmptyValue?: boolean;
+  type?: string;
+  collectionFormat?: string;
+  schema?: OpenAPISchema;
+  /** Inline schema keywords: format, items, enum, minimum, ... */
+  [keyword: string]: unknown;
+}
+
+export interface SwaggerResponse {
+  $ref?: string;
+  description?: string;
+  schema?: OpenAPISchema;
+  examples?: Record<string, unknown>;
+  headers?: Record<string, { description?: string; [keyword: string]: unknown }>;
+}
+
+export interface SwaggerSecurityScheme {
+  type: string;
+  description?: string;
+  name?: string;
+  in?: string;
+  flow?: string;
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  scopes?: Record<string, string>;
+}
+
+export interface SwaggerData {
+  swagger: "2.0";
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  produces?: string[];
+  paths: Record<string, Record<string, unknown>>;
+  definitions?: Record<string, OpenAPISchema>;
+  parameters?: Record<string, SwaggerParameter>;
+  responses?: Record<string, SwaggerResponse>;
+  securityDefinitions?: Record<string, SwaggerSecurityScheme>;
+  security?: Array<Record<string, string[]>>;
+  [key: string]: unknown;
+}
@@ -1,4 +1,19 @@
-import type { OpenAPIData } from "../types/interfaces.ts";
+import type {
+  OpenAPIData,
+  OpenAPIOperation,
+  OpenAPIParameter,
+  OpenAPIResponse,
+  SecurityScheme,
+} from "../types/interfaces.ts";
+import { convertSchemaToType, getSchemaTypeNames } from "./type-generators.ts";
+
+export const PATH_ITEM_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+/** Methods without a request body, they send the operation's query parameters */
+const QUERY_METHODS = ["get", "head", "options", "trace"];
+
+/** Header parameters the OpenAPI specification says to ignore, they are set by the client itself */
+const IGNORED_HEADER_PARAMS = ["accept", "content-type", "authorization"];
 
 interface PathInfo {
   path: string;
@@ -8,111 +23,631 @@ interface PathInfo {
   isCollection: boolean;
   isResource: boolean;
   pathParams: string[];
+  /** How the response body is read, from the success response's content type */
+  responseKind: ResponseKind;
+  /** Whether non-2xx responses throw an ApiError instead of resolving */
+  throwOnError: boolean;
+  /** Whether bodies are checked against their schemas when the client config asks for it */
+  validate: boolean;
 }
 
-function extractUsedTypes(
-  pathInfos: PathInfo[],
+export type ResponseKind = "json" | "text" | "blob" | "arrayBuffer" | "stream";
+
+/** How serializeQuery writes a query parameter, from its `style`, `explode` and `allowReserved` */
+export interface QueryStyle {
+  style: string;
+  explode: boolean;
+  allowReserved?: boolean;
+}
+
+/** Content types that are read incrementally instead of buffered */
+const STREAM_CONTENT_TYPES = ["text/event-stream", "application/x-ndjson", "application/jsonl"];
+
+function extractUsedTypes(apiData: OpenAPIData): string[] {
+  // Every schema, including $defs entries, is a named export of the types file.
+  // Request and response types can only refer to those, so there is nothing
+  // else to collect from the operations themselves.
+  return getSchemaTypeNames(apiData).sort();
+}
+
+export interface ClientGeneratorOptions {
+  /**
+   * "flat" groups methods by HTTP method (`client.get.todos()`), "nested" builds
+   * a tree that mirrors the URL hierarchy (`client.users(id).posts.list()`).
+   * Default: "flat"
+   */
+  structure?: "flat" | "nested";
+  /**
+   * What binary responses (`application/octet-stream`, `application/pdf`,
+   * `image/*`...) resolve to. Default: "blob"
+   */
+  binaryResponseType?: "blob" | "arrayBuffer" | "stream";
+  /**
+   * "union": every response resolves, typed by status. "throw": non-2xx
+   * responses reject with an `ApiError`. Default: "union"
+   */
+  errorMode?: "union" | "throw";
+  /**
+   * Check responses (and, optionally, request bodies) against their schemas
+   * at runtime, with the `__validateSchema` emitted by
+   * `createTypesFromApiData(apiData, { validators: true })`. Default: false
+   */
+  validators?: boolean;
+}
+
+/**
+ * A client member that had to be renamed because another operation or
+ * resource already generated the same name
+ */
+export interface MethodNameRename {
+  /** Path of the renamed operation, e.g. "/pets/{petId}" */
+  path: string;
+  /** HTTP method of the renamed operation, undefined for renamed resource segments */
+  method?: string;
+  operationId?: string;
+  /** Where the member lives, e.g. "client.get" or "client /users/{id}" */
+  scope: string;
+  /** The name the member would have had */
+  originalName: string;
+  /** The name it was given */
+  name: string;
+}
+
+export function generateClientFromOpenAPI(
   apiData: OpenAPIData,
-): string[] {
-  const usedTypes = new Set<string>();
+  options: ClientGeneratorOptions = {},
+): string {
+  return buildClient(apiData, options).code;
+}
 
-  // Extract types from all operations - only include actual type names, not inline types
-  for (const pathInfo of pathInfos) {
-    // Get request body type
-    if (pathInfo.operation.requestBody) {
-      const requestType = getRequestType(pathInfo.operation);
-      // Only add if it's a valid type name (not inline type with {)
-      if (requestType && requestType !== "any" && !requestType.includes("{")) {
-        // Check if it's an array and extract the base type
-        const baseType = requestType.includes("[]") ? requestType.replace("[]", "") : requestType;
-        if (baseType && baseType !== "any") {
-          usedTypes.add(baseType);
-        }
-      }
+/**
+ * Lists the members that generateClientFromOpenAPI renames to avoid duplicate
+ * keys. Names are claimed in spec order, operationIds before fallback
+ * resource names, and later members get a numeric suffix (`getpets2`).
+ */
+export function findMethodNameCollisions(
+  apiData: OpenAPIData,
+  options: ClientGeneratorOptions = {},
+): MethodNameRename[] {
+  return buildClient(apiData, options).renames;
+}
+
+/**
+ * An operation as the flat client exposes it, e.g. `client.put.updatepet(id)(body)`,
+ * or `client.get.pet(id).get()` for one without an operationId. createDynamicClient
+ * builds its methods from these, so it matches the generated client.
+ */
+export interface ClientOperation {
+  /** The HTTP method, also the client namespace: "get" for `client.get.getpets` */
+  method: string;
+  /** Member name, including any collision suffix */
+  name: string;
+  path: string;
+  operation: OpenAPIOperation;
+  pathParams: string[];
+  /** Path parameters are passed to a first call, the body and headers to the second */
+  curried: boolean;
+  /** The member the request is sent through: "queryParams" for `client.get.pets.queryParams(params)` */
+  member?: string;
+  /** Whether a query parameters object is accepted */
+  hasQueryParams: boolean;
+  /** serializeQuery settings of the query parameters that aren't `style: form, explode: true` */
+  queryStyles: Record<string, QueryStyle>;
+  hasHeaderParams: boolean;
+  hasCookieParams: boolean;
+  /** The content type the body is sent as, undefined without a request body */
+  requestContentType?: string;
+  responseKind: ResponseKind;
+}
+
+export function getClientOperations(
+  apiData: OpenAPIData,
+  options: ClientGeneratorOptions = {},
+): ClientOperation[] {
+  const resourceGroups = groupPathsByResource(collectPathInfos(apiData, options));
+  const operations: ClientOperation[] = [];
+
+  for (const [method, methodPaths] of Object.entries(resourceGroups)) {
+    const { directPaths, fallbackPaths } = splitFlatMethodPaths(methodPaths);
+    // Names are claimed in the order generateFlatClientMembers claims them
+    const taken = new Set<string>();
+    const claimName = (name: string, pathInfo: PathInfo) =>
+      uniqueMemberName(name, taken, [], { path: pathInfo.path, method, scope: `client.${method}` });
+
+    for (const pathInfo of directPaths) {
+      operations.push(toClientOperation(pathInfo, claimName(getMethodName(pathInfo.operation, ""), pathInfo), {
+        curried: pathInfo.pathParams.length > 0 && isCurriedMethod(method),
+        hasQueryParams: QUERY_METHODS.includes(method),
+      }));
     }
 
-    // Get response type
-    const responseType = getResponseType(pathInfo.operation);
-    // Only add if it's a valid type name (not inline type with {)
-    if (responseType && responseType !== "any" && !responseType.includes("{")) {
-      // Check if it's an array and extract the base type
-      if (responseType.includes("[]")) {
-        const baseType = responseType.replace("[]", "");
-        if (baseType && baseType !== "any") {
-          usedTypes.add(baseType);
+    // The resource name fallbacks of generateCollectionMethods and generateResourceMethods
+    for (const { resourceName, pathInfo } of fallbackPaths) {
+      const isQueryMethod = QUERY_METHODS.includes(method);
+      if (pathInfo.isCollection) {
+        const name = claimName(resourceName, pathInfo);
+        const nested = getParameters(pathInfo.operation, "query").length > 0;
+        if (isQueryMethod) {
+          const member = nested ? "queryParams" : undefined;
+          operations.push(toClientOperation(pathInfo, name, { curried: false, hasQueryParams: true, member }));
+        } else if (pathInfo.operation.requestBody) {
+          const member = nested ? "data" : undefined;
+          operations.push(toClientOperation(pathInfo, name, { curried: false, hasQueryParams: false, member }));
         }
       } else {
-        usedTypes.add(responseType);
+        const name = claimName(getSingularName(resourceName), pathInfo);
+        if (isQueryMethod) {
+          operations.push(toClientOperation(pathInfo, name, { curried: true, hasQueryParams: false, member: method }));
+        } else if (pathInfo.operation.requestBody || method === "delete") {
+          operations.push(toClientOperation(pathInfo, name, { curried: true, hasQueryParams: false }));
+        }
       }
     }
   }
 
-  // Also include all schema types from the API
-  if (apiData.components?.schemas) {
-    for (const schemaName of Object.keys(apiData.components.schemas)) {
-      usedTypes.add(schemaName);
-    }
-  }
-
-  // Filter out TypeScript built-in types that shouldn't be imported
-  const builtInTypes = ['string', 'number', 'boolean', 'any', 'unknown', 'never', 'void'];
-  const filteredTypes = Array.from(usedTypes).filter(type => !builtInTypes.includes(type));
-  
-  return filteredTypes.sort();
+  return operations;
 }
 
-export function generateClientFromOpenAPI(apiData: OpenAPIData): string {
-  const paths = apiData.paths;
+function toClientOperation(
+  pathInfo: PathInfo,
+  name: string,
+  call: Pick<ClientOperation, "curried" | "hasQueryParams" | "member">,
+): ClientOperation {
+  return {
+    method: pathInfo.method,
+    name,
+    path: pathInfo.path,
+    operation: pathInfo.operation,
+    pathParams: pathInfo.pathParams,
+    ...call,
+    queryStyles: getQueryStyles(pathInfo.operation),
+    hasHeaderParams: getParameters(pathInfo.operation, "header").length > 0,
+    hasCookieParams: getParameters(pathInfo.operation, "cookie").length > 0,
+    requestContentType: pathInfo.operation.requestBody ? getRequestContentType(pathInfo.operation) : undefined,
+    responseKind: pathInfo.responseKind,
+  };
+}
 
-  // Analyze all paths and extract resource information
+/**
+ * Analyzes every operation in the spec, with path-level parameters merged in
+ */
+function collectPathInfos(apiData: OpenAPIData, options: ClientGeneratorOptions): PathInfo[] {
+  const { binaryResponseType = "blob", errorMode = "union", validators = false } = options;
   const pathInfos: PathInfo[] = [];
 
-  for (const [path, pathObj] of Object.entries(paths)) {
+  for (const [path, pathObj] of Object.entries(apiData.paths as Record<string, Record<string, unknown>>)) {
     for (const [method, operation] of Object.entries(pathObj)) {
+      // Skip path-level "parameters", "summary", "servers" etc.
+      if (!PATH_ITEM_METHODS.includes(method)) continue;
+
       if (typeof operation === "object" && operation !== null) {
-        const pathInfo = analyzePath(path, method, operation);
-        pathInfos.push(pathInfo);
+        const parameters = mergeParameters(pathObj.parameters, (operation as OpenAPIOperation).parameters);
+        const pathInfo = analyzePath(
+          path,
+          method,
+          parameters ? { ...operation, parameters } : operation,
+          binaryResponseType,
+        );
+        pathInfos.push({ ...pathInfo, throwOnError: errorMode === "throw", validate: validators });
       }
     }
   }
 
+  return pathInfos;
+}
+
+export interface GeneratedClient {
+  code: string;
+  /** Members renamed to avoid duplicate keys, see findMethodNameCollisions */
+  renames: MethodNameRename[];
+}
+
+/**
+ * generateClientFromOpenAPI and findMethodNameCollisions in one pass, for
+ * callers that write the client and report its renames
+ */
+export function buildClient(
+  apiData: OpenAPIData,
+  options: ClientGeneratorOptions = {},
+): GeneratedClient {
+  const { structure = "flat", errorMode = "union", validators = false } = options;
+  const renames: MethodNameRename[] = [];
+
+  // Analyze all paths and extract resource information
+  const pathInfos = collectPathInfos(apiData, options);
+
+  const usesHeaderParams = pathInfos.some((p) => getParameters(p.operation, "header").length > 0);
+  const usesCookieParams = pathInfos.some((p) => getParameters(p.operation, "cookie").length > 0);
+  const usesAuth = Object.keys(apiData.components?.securitySchemes ?? {}).length > 0;
+  const usesOAuth2 = usesOAuth2Flows(apiData);
+  const requestContentTypes = pathInfos
+    .filter((p) => p.operation.requestBody)
+    .map((p) => getRequestContentType(p.operation));
+
+  const operationErrors = pathInfos.map((p) => {
+    const operationId = getOperationId(p);
+    const escapedId = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(operationId) ? operationId : JSON.stringify(operationId);
+    return `  ${escapedId}: ${getErrorBodyType(p)};`;
+  });
+
   // Group paths by resource and HTTP method
   const resourceGroups = groupPathsByResource(pathInfos);
 
   // Extract all unique types used in the API
-  const usedTypes = extractUsedTypes(pathInfos, apiData);
+  const usedTypes = extractUsedTypes(apiData);
 
+  // Schemas are imported into module scope, so the runtime names fetch's own
+  // types through globalThis (Response, AbortSignal, Error)
   let clientCode = `// Auto-generated API client from OpenAPI specification
 // Generated on: ${new Date().toISOString()}
 
 // Import generated types
-${usedTypes.length > 0 ? usedTypes.map((type) => `import { ${type} } from "./types.ts";`).join("\n") : ""}
+${usedTypes.length > 0 ? usedTypes.map((type) => `import { ${type} } from "./types.ts";`).join("\n") : ""}${validators ? `
+import { type __SchemaViolation, __validateSchema } from "./types.ts";` : ""}
 
-type Servers = ${
-    apiData.servers?.map((s, i) => {
-      return (i > 0 ? "|" : "") + "'" + s.url + "'";
-    })
-  };
+type Servers = ${apiData.servers?.map((s) => "'" + s.url + "'").join(" | ") || "string"};
 
+/**
+ * A request as middleware sees it, changes made in \`onRequest\` are sent
+ */
+export interface ApiRequest {
+  /** The operationId, or "GET /pets/{id}" for operations without one */
+  operationId: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+  /** Aborts the request, combines the call's \`signal\` and timeout */
+  signal?: globalThis.AbortSignal;
+}
+
+export interface Middleware {
+  /** Runs before the request is sent, a returned request is sent instead */
+  onRequest?(request: ApiRequest): ApiRequest | void | Promise<ApiRequest | void>;
+  /** Runs for every response, error statuses included, a returned response is used instead */
+  onResponse?(response: globalThis.Response, request: ApiRequest): globalThis.Response | void | Promise<globalThis.Response | void>;
+  /** Runs when fetch fails without a response, a returned response recovers from the error */
+  onError?(error: unknown, request: ApiRequest): globalThis.Response | void | Promise<globalThis.Response | void>;
+}
+
+/**
+ * When and how often failed requests are sent again. Only idempotent methods
+ * are retried, POST and PATCH requests when they carry an idempotency key.
+ */
+export interface RetryPolicy {
+  /** Attempts after the first one (default: 2) */
+  retries?: number;
+  /** Response statuses that are retried (default: 408, 429, 500, 502, 503 and 504) */
+  statuses?: number[];
+  /** Methods that are retried (default: GET, HEAD, OPTIONS, PUT and DELETE) */
+  methods?: string[];
+  /** Header that makes any other method retryable (default: "Idempotency-Key") */
+  idempotencyHeader?: string;
+  /** Delay before the first retry in ms, doubled for every further one and jittered (default: 300) */
+  baseDelay?: number;
+  /** Longest delay in ms; a longer Retry-After gives up and returns the response (default: 30000) */
+  maxDelay?: number;
+}
+
+/**
+ * Options for a single call, every operation takes them as its last argument
+ */
+export interface RequestOptions {
+  /** Cancels the call, retries and their delays included */
+  signal?: globalThis.AbortSignal;
+  /** Aborts the call with a TimeoutError after this many ms, retries included (default: the client's \`timeout\`) */
+  timeout?: number;
+  /** Sent with the request, over the client's and the operation's headers */
+  headers?: Record<string, string>;
+  /** Replaces parts of the client's retry policy, \`false\` turns retries off for the call */
+  retry?: RetryPolicy | boolean;
+}
+${usesAuth ? generateAuthConfig(apiData) : ""}
 interface ClientConfig {
   baseUrl: Servers | string & {};
   headers?: Record<string, string>;
+  /** Runs around every request: \`onRequest\` in order, \`onResponse\` and \`onError\` in reverse */
+  middleware?: Middleware[];
+  /** Sends the requests instead of the global fetch, which refuses TRACE requests */
+  fetch?: typeof fetch;
+  /** Aborts calls with a TimeoutError after this many ms, retries included (default: no timeout) */
+  timeout?: number;
+  /** Retries failed requests, \`true\` for the default policy (default: false) */
+  retry?: RetryPolicy | boolean;${usesAuth ? `
+  /** Credentials per security scheme, each operation sends the ones its \`security\` asks for */
+  auth?: AuthConfig;` : ""}${validators ? `
+  /** Check response bodies against the spec: log a warning or throw a SchemaValidationError (default: "off") */
+  validate?: "off" | "warn" | "throw";
+  /** Check request bodies too, with the same \`validate\` setting */
+  validateRequests?: boolean;` : ""}
 }
 
+type QueryValue = string | number | boolean;
+
 interface QueryParams {
-  [key: string]: string | number | boolean | undefined;
+  [key: string]: QueryValue | QueryValue[] | Record<string, QueryValue | undefined> | undefined;
 }
 
+${generateRequestRuntime()}
+
 interface RequestBody {
   [key: string]: any;
 }
 
 interface ApiResponse<T = any> {
   data: T;
+  ok: boolean;
+  status: number;
+  statusText: string;
+}
+
+/**
+ * One documented response of an operation. Operations that document error
+ * responses return a union of these, narrowed by \`status\` or \`ok\`
+ */
+interface StatusResponse<S extends number, T, Ok extends boolean> {
+  data: T;
+  ok: Ok;
+  status: S;
+  statusText: string;
+}
+
+interface ResponseHeaders {
+  [name: string]: string | undefined;
+}
+
+interface HeadResponse<H = ResponseHeaders> {
+  headers: H & ResponseHeaders;
+  ok: boolean;
   status: number;
   statusText: string;
 }
 
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  retries: 2,
+  statuses: [408, 429, 500, 502, 503, 504],
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  idempotencyHeader: "Idempotency-Key",
+  baseDelay: 300,
+  maxDelay: 30_000,
+};
+
+function getRetryPolicy(
+  client: RetryPolicy | boolean | undefined,
+  call: RetryPolicy | boolean | undefined,
+): Required<RetryPolicy> | undefined {
+  if (call === false || (call === undefined && !client)) return undefined;
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(typeof client === "object" ? client : {}),
+    ...(typeof call === "object" ? call : {}),
+  };
+}
+
+function isRetryable(policy: Required<RetryPolicy>, request: ApiRequest): boolean {
+  // Streamed bodies can only be sent once
+  if (request.body instanceof ReadableStream) return false;
+  const idempotencyHeader = policy.idempotencyHeader.toLowerCase();
+  return policy.methods.includes(request.method) ||
+    Object.keys(request.headers).some((name) => name.toLowerCase() === idempotencyHeader);
+}
+
+/**
+ * Milliseconds to wait before the next attempt: the response's Retry-After
+ * (seconds or an HTTP date), or exponential backoff with full jitter.
+ * Undefined when Retry-After asks for longer than \`maxDelay\`.
+ */
+function getRetryDelay(policy: Required<RetryPolicy>, attempt: number, retryAfter?: string | null): number | undefined {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!Number.isNaN(delay)) return delay > policy.maxDelay ? undefined : Math.max(0, delay);
+  }
+  return Math.random() * Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+}
+
+function sleep(ms: number, signal?: globalThis.AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    const abort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+/**
+ * The call's signal combined with its timeout, or the client's
+ */
+function getSignal(config: ClientConfig, options: RequestOptions): globalThis.AbortSignal | undefined {
+  const timeout = options.timeout ?? config.timeout;
+  const signals = [options.signal, timeout !== undefined ? globalThis.AbortSignal.timeout(timeout) : undefined]
+    .filter((signal): signal is globalThis.AbortSignal => signal !== undefined);
+  return signals.length > 1 ? globalThis.AbortSignal.any(signals) : signals[0];
+}
+${usesAuth ? generateAuthRuntime(apiData, pathInfos) : ""}
+/**
+ * Sends the request of every operation, through the configured middleware and
+ * fetch. Every attempt of a retried request goes through the middleware.
+ */
+async function sendRequest(
+  config: ClientConfig,
+  operationId: string,
+  options: RequestOptions,
+  url: string,
+  init: { method: string; headers?: Record<string, string>; body?: BodyInit | null },
+): Promise<globalThis.Response> {
+  const middleware = config.middleware ?? [];
+  const policy = getRetryPolicy(config.retry, options.retry);
+  const signal = getSignal(config, options);${usesOAuth2 ? `
+  let reauthorized = false;` : ""}
+
+  for (let attempt = 0;; attempt++) {
+    let request: ApiRequest = { operationId, url, ...init, headers: { ...init.headers, ...options.headers }, signal };${usesAuth ? `
+    request = await applyAuth(config, request);` : ""}
+    for (const item of middleware) {
+      request = (await item.onRequest?.(request)) ?? request;
+    }
+    const retry = policy && attempt < policy.retries && isRetryable(policy, request) ? policy : undefined;
+
+    let response: globalThis.Response;
+    try {
+      response = await (config.fetch ?? fetch)(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+      });
+    } catch (error) {
+      for (const item of [...middleware].reverse()) {
+        const recovered = await item.onError?.(error, request);
+        if (recovered) return recovered;
+      }
+      // Aborted and timed out requests stay aborted
+      if (!retry || request.signal?.aborted || (error instanceof DOMException && error.name === "AbortError")) {
+        throw error;
+      }
+      await sleep(getRetryDelay(retry, attempt)!, request.signal);
+      continue;
+    }
+
+    for (const item of [...middleware].reverse()) {
+      response = (await item.onResponse?.(response, request)) ?? response;
+    }
+${usesOAuth2 ? `
+    // A revoked token: send the request once more with a new one, that isn't a retry
+    if (response.status === 401 && !reauthorized && clearOAuth2Tokens(config.auth, operationId)) {
+      reauthorized = true;
+      attempt--;
+      await response.body?.cancel();
+      continue;
+    }
+` : ""}
+    const delay = retry?.statuses.includes(response.status)
+      ? getRetryDelay(retry, attempt, response.headers.get("Retry-After"))
+      : undefined;
+    if (delay === undefined) return response;
+    await response.body?.cancel();
+    await sleep(delay, request.signal);
+  }
+}
+${usesHeaderParams ? `
+function toHeaderValues(values: Record<string, unknown>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      headers[name] = String(value);
+    }
+  }
+  return headers;
+}
+` : ""}${usesCookieParams ? `
+function toCookieHeader(values: Record<string, unknown>): Record<string, string> {
+  const cookies = Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => \`\${name}=\${encodeURIComponent(String(value))}\`);
+  return cookies.length > 0 ? { Cookie: cookies.join("; ") } : {};
+}
+` : ""}${requestContentTypes.includes("multipart/form-data") ? `
+/**
+ * Builds a multipart body, Blob and File values are sent as files
+ */
+function toFormData(body: RequestBody): FormData {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(body)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item instanceof Blob) {
+        form.append(name, item);
+      } else {
+        form.append(name, item !== null && typeof item === "object" ? JSON.stringify(item) : String(item));
+      }
+    }
+  }
+  return form;
+}
+` : ""}${requestContentTypes.includes("application/x-www-form-urlencoded") ? `
+function toUrlEncoded(body: RequestBody): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(body)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      params.append(name, item !== null && typeof item === "object" ? JSON.stringify(item) : String(item));
+    }
+  }
+  return params;
+}
+` : ""}${errorMode === "throw" ? `
+/**
+ * Thrown for non-2xx responses, \`body\` is the parsed error response.
+ * Extends globalThis.Error as specs often define an \`Error\` schema
+ */
+export class ApiError<B = any> extends globalThis.Error {
+  constructor(
+    readonly operationId: string,
+    readonly status: number,
+    readonly statusText: string,
+    readonly headers: ResponseHeaders,
+    readonly body: B,
+  ) {
+    super(\`\${operationId} failed with \${status} \${statusText}\`);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Error response bodies by operationId
+ */
+interface OperationErrors {
+${operationErrors.join("\n")}
+}
+
+/**
+ * Narrows \`error\` to an ApiError, typed for \`operationId\` when given
+ */
+export function isApiError<K extends keyof OperationErrors>(
+  error: unknown,
+  operationId?: K,
+): error is ApiError<OperationErrors[K]> {
+  return error instanceof ApiError && (operationId === undefined || error.operationId === operationId);
+}
+
+async function throwApiError(operationId: string, response: globalThis.Response): Promise<never> {
+  throw new ApiError(
+    operationId,
+    response.status,
+    response.statusText,
+    Object.fromEntries(response.headers),
+    await parseResponse(response, "json"),
+  );
+}
+` : ""}${validators ? `
+/**
+ * Thrown in \`validate: "throw"\` mode when a body doesn't match its schema
+ */
+export class SchemaValidationError extends globalThis.Error {
+  constructor(message: string, readonly violations: __SchemaViolation[]) {
+    super(message);
+    this.name = "SchemaValidationError";
+  }
+}
+
+function checkSchema<T>(mode: ClientConfig["validate"], label: string, value: T, schema: unknown): T {
+  if (!mode || mode === "off") return value;
+  const violations = __validateSchema(schema, value);
+  if (violations.length === 0) return value;
+
+  const message = \`\${label} does not match the spec:\\n\${violations.map((v) => \`  \${v.path} \${v.message}\`).join("\\n")}\`;
+  if (mode === "throw") throw new SchemaValidationError(message, violations);
+  console.warn(message);
+  return value;
+}
+` : ""}
 class ApiClient {
   private config: ClientConfig;
 
@@ -122,37 +657,170 @@ class ApiClient {
 
 `;
 
-  // Generate HTTP method handlers dynamically
-  const httpMethods = ["get", "post", "put", "delete", "patch"];
+  clientCode += structure === "nested"
+    ? generateNestedClientMembers(pathInfos, apiData, renames)
+    : generateFlatClientMembers(resourceGroups, apiData, renames);
 
-  for (const method of httpMethods) {
-    clientCode += `  ${method} = {\n`;
+  clientCode += `}
 
-    const methodPaths = resourceGroups[method] || {};
-    const directMethods: string[] = [];
-    const fallbackMethods: string[] = [];
+export function createClient(config: ClientConfig): ApiClient {
+  return new ApiClient(config);
+}
 
-    for (let [resourceName, paths] of Object.entries(methodPaths)) {
-      const collectionPath = paths.find((p) => p.isCollection);
-      const resourcePath = paths.find((p) => p.isResource);
-      resourceName = resourceName
-        .replaceAll(".", "_")
-        .replaceAll("-", "_")
-        .toLowerCase();
+`;
 
-      // Check if paths have operationId
-      if (collectionPath && collectionPath.operation.operationId) {
-        directMethods.push(generateDirectMethod(collectionPath, apiData));
-      } else if (collectionPath) {
-        fallbackMethods.push(generateCollectionMethods(resourceName, collectionPath, apiData));
-      }
+  return { code: clientCode, renames };
+}
+
+/**
+ * `serializeQuery`, `resolveUrl` and `parseResponse`, the request helpers of
+ * the generated clients. createDynamicClient imports the same source.
+ */
+export function generateRequestRuntime(): string {
+  return `interface QueryParamStyle {
+  style?: "form" | "spaceDelimited" | "pipeDelimited" | "deepObject";
+  explode?: boolean;
+  allowReserved?: boolean;
+}
 
-      if (resourcePath && resourcePath.operation.operationId) {
-        directMethods.push(generateDirectMethod(resourcePath, apiData));
-      } else if (resourcePath) {
-        fallbackMethods.push(generateResourceMethods(resourceName, resourcePath, apiData));
+/**
+ * Serializes query parameters following their OpenAPI style, explode and allowReserved settings
+ */
+function serializeQuery(params: Record<string, any>, styles: Record<string, QueryParamStyle> = {}): string {
+  const query: string[] = [];
+
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+
+    const { style = "form", explode = style === "form", allowReserved = false } = styles[name] ?? {};
+    const encode = (part: unknown) => {
+      const encoded = encodeURIComponent(String(part));
+      // Reserved characters (RFC 3986 gen-delims and sub-delims) are sent as-is
+      return allowReserved ? encoded.replace(/%(21|23|24|26|27|28|29|2A|2B|2C|2F|3A|3B|3D|3F|40|5B|5D)/gi, decodeURIComponent) : encoded;
+    };
+    const key = encodeURIComponent(name);
+
+    if (Array.isArray(value)) {
+      if (explode) {
+        value.forEach((item) => query.push(\`\${key}=\${encode(item)}\`));
+      } else {
+        const delimiter = style === "spaceDelimited" ? "%20" : style === "pipeDelimited" ? "|" : ",";
+        query.push(\`\${key}=\${value.map(encode).join(delimiter)}\`);
+      }
+    } else if (value !== null && typeof value === "object") {
+      const entries = Object.entries(value).filter(([, property]) => property !== undefined);
+      if (style === "deepObject") {
+        entries.forEach(([property, item]) => query.push(\`\${key}[\${encodeURIComponent(property)}]=\${encode(item)}\`));
+      } else if (explode) {
+        entries.forEach(([property, item]) => query.push(\`\${encodeURIComponent(property)}=\${encode(item)}\`));
+      } else {
+        query.push(\`\${key}=\${entries.flat().map(encode).join(",")}\`);
       }
+    } else {
+      query.push(\`\${key}=\${encode(value)}\`);
+    }
+  }
+
+  return query.join("&");
+}
+
+/**
+ * Appends an operation path to the base URL. A query string in the base URL,
+ * such as "?api-version=2024-01-01", stays in the query and is sent along.
+ */
+function resolveUrl(baseUrl: string, path: string, query = ""): string {
+  const [base, ...baseQuery] = baseUrl.split("?");
+  const search = [baseQuery.join("?"), query].filter(Boolean).join("&");
+  return search ? \`\${base}\${path}?\${search}\` : \`\${base}\${path}\`;
+}
+
+/**
+ * Reads the response body as the operation documents it. Empty bodies
+ * (204, 205, 304 or no content at all) resolve to undefined.
+ */
+async function parseResponse(
+  response: globalThis.Response,
+  as: "json" | "text" | "blob" | "arrayBuffer" | "stream",
+): Promise<any> {
+  if (response.status === 204 || response.status === 205 || response.status === 304) {
+    return undefined;
+  }
+  switch (as) {
+    case "stream":
+      return response.body ?? undefined;
+    case "blob":
+      return await response.blob();
+    case "arrayBuffer":
+      return await response.arrayBuffer();
+    case "text":
+      return await response.text();
+  }
+  const text = await response.text();
+  if (text === "") return undefined;
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    // Error pages from proxies and gateways often aren't JSON
+    if (!response.ok) return text;
+    throw error;
+  }
+}
+`;
+}
+
+function generateFlatClientMembers(
+  resourceGroups: Record<string, Record<string, PathInfo[]>>,
+  apiData: OpenAPIData,
+  renames: MethodNameRename[],
+): string {
+  let clientCode = "";
+
+  // Generate HTTP method handlers dynamically, HEAD, OPTIONS and TRACE only when the spec uses them
+  const httpMethods = [
+    "get",
+    "post",
+    "put",
+    "delete",
+    "patch",
+    ...["head", "options", "trace"].filter((method) => resourceGroups[method]),
+  ];
+
+  for (const method of httpMethods) {
+    if (method === "trace") {
+      clientCode += `  /** TRACE requests need a \`fetch\` in the config that sends them, the global fetch refuses them */\n`;
     }
+    clientCode += `  ${method} = {\n`;
+
+    const { directPaths, fallbackPaths } = splitFlatMethodPaths(resourceGroups[method] || {});
+
+    // Names from operationIds are claimed before fallback resource names
+    const taken = new Set<string>();
+    const claimName = (name: string, pathInfo: PathInfo) =>
+      uniqueMemberName(name, taken, renames, {
+        path: pathInfo.path,
+        method: pathInfo.method,
+        operationId: pathInfo.operation.operationId,
+        scope: `client.${method}`,
+      });
+
+    const directMethods = directPaths.map((pathInfo) =>
+      generateDirectMethod(
+        pathInfo,
+        apiData,
+        claimName(getMethodName(pathInfo.operation, ""), pathInfo),
+      )
+    );
+
+    const fallbackMethods = fallbackPaths.map(({ resourceName, pathInfo }) =>
+      pathInfo.isCollection
+        ? generateCollectionMethods(claimName(resourceName, pathInfo), pathInfo, apiData)
+        : generateResourceMethods(
+          resourceName,
+          pathInfo,
+          apiData,
+          claimName(getSingularName(resourceName), pathInfo),
+        )
+    );
 
     // Add direct methods first
     directMethods.forEach(methodCode => {
@@ -167,18 +835,305 @@ class ApiClient {
     clientCode += `  };\n\n`;
   }
 
-  clientCode += `}
+  return clientCode;
+}
 
-export function createClient(config: ClientConfig): ApiClient {
-  return new ApiClient(config);
+/**
+ * Splits the paths of one HTTP method into operationId methods and resource
+ * name fallbacks, collections before resources, each in spec order
+ */
+function splitFlatMethodPaths(methodPaths: Record<string, PathInfo[]>): {
+  directPaths: PathInfo[];
+  fallbackPaths: { resourceName: string; pathInfo: PathInfo }[];
+} {
+  const directPaths: PathInfo[] = [];
+  const fallbackPaths: { resourceName: string; pathInfo: PathInfo }[] = [];
+
+  for (let [resourceName, paths] of Object.entries(methodPaths)) {
+    resourceName = resourceName
+      .replaceAll(".", "_")
+      .replaceAll("-", "_")
+      .toLowerCase();
+
+    const orderedPaths = [
+      ...paths.filter((p) => p.isCollection),
+      ...paths.filter((p) => p.isResource),
+    ];
+    for (const pathInfo of orderedPaths) {
+      // Check if paths have operationId
+      if (pathInfo.operation.operationId) {
+        directPaths.push(pathInfo);
+      } else {
+        fallbackPaths.push({ resourceName, pathInfo });
+      }
+    }
+  }
+
+  return { directPaths, fallbackPaths };
 }
 
-`;
+interface ResourceNode {
+  /** Operations on this exact path, keyed by HTTP method */
+  operations: Record<string, PathInfo>;
+  /** Static child segments, keyed by segment */
+  children: Map<string, ResourceNode>;
+  /**
+   * Children for parameterised segments such as "{id}" or "{list}.json", keyed
+   * by the segment without its parameter names
+   */
+  paramChildren: Map<string, ParamChild>;
+}
 
-  return clientCode;
+interface ParamChild {
+  segment: string;
+  node: ResourceNode;
+}
+
+const NESTED_METHOD_NAMES: Record<string, string> = {
+  post: "create",
+  put: "update",
+  patch: "patch",
+  delete: "delete",
+  head: "head",
+  options: "options",
+  trace: "trace",
+};
+
+/** Class members that nested resources must not shadow */
+const RESERVED_CLIENT_MEMBERS = ["config", "constructor"];
+
+function createResourceNode(): ResourceNode {
+  return { operations: {}, children: new Map(), paramChildren: new Map() };
+}
+
+function buildResourceTree(pathInfos: PathInfo[]): ResourceNode {
+  const root = createResourceNode();
+
+  for (const pathInfo of pathInfos) {
+    let node = root;
+    for (const segment of pathInfo.path.split("/").filter(Boolean)) {
+      if (segment.includes("{")) {
+        // Differently named params at the same position share one node ("{id}"
+        // and "{userId}"), other segments get their own ("{list}.json")
+        const key = segment.replace(/\{[^}]+\}/g, "{}");
+        if (!node.paramChildren.has(key)) {
+          node.paramChildren.set(key, { segment, node: createResourceNode() });
+        }
+        node = node.paramChildren.get(key)!.node;
+      } else {
+        if (!node.children.has(segment)) {
+          node.children.set(segment, createResourceNode());
+        }
+        node = node.children.get(segment)!;
+      }
+    }
+    node.operations[pathInfo.method] = pathInfo;
+  }
+
+  return root;
+}
+
+interface ResourceMember {
+  name: string;
+  /** JSDoc block placed above the member */
+  doc: string;
+  code: string;
+}
+
+function generateNestedClientMembers(
+  pathInfos: PathInfo[],
+  apiData: OpenAPIData,
+  renames: MethodNameRename[],
+): string {
+  const root = buildResourceTree(pathInfos);
+  // Members of the root become class fields, a class can't be called so
+  // parameterised segments such as "/{id}" become named members too
+  const members = generateResourceNodeMembers(
+    root,
+    "",
+    apiData,
+    renames,
+    [...root.paramChildren.values()],
+    RESERVED_CLIENT_MEMBERS,
+  );
+
+  return members
+    .map(({ name, doc, code }) => indentCode(`${doc}${name} = ${code};\n`, 2))
+    .join("\n") + "\n";
+}
+
+/**
+ * Generates the operations, static children and the given parameterised
+ * children of a node. Sibling names are made unique, so routes such as
+ * "/lists" and "/lists.json" never collide.
+ */
+function generateResourceNodeMembers(
+  node: ResourceNode,
+  urlPath: string,
+  apiData: OpenAPIData,
+  renames: MethodNameRename[],
+  paramMembers: ParamChild[],
+  reserved: string[] = [],
+): ResourceMember[] {
+  const members: ResourceMember[] = [];
+  const taken = new Set(reserved);
+  const path = urlPath.replace(/\$\{([^}]+)\}/g, "{$1}");
+  const scope = `client ${path || "/"}`;
+
+  for (const [method, pathInfo] of Object.entries(node.operations)) {
+    // GET on a collection lists it, on anything else it fetches the resource
+    const name = uniqueMemberName(
+      method === "get"
+        ? (node.paramChildren.size > 0 && !pathInfo.path.endsWith("}") ? "list" : "get")
+        : NESTED_METHOD_NAMES[method] ?? method,
+      taken,
+      renames,
+      { path: pathInfo.path, method, operationId: pathInfo.operation.operationId, scope },
+    );
+
+    // Reuse the direct method generator, path parameters come from the enclosing functions
+    const methodCode = dedentCode(
+      generateDirectMethod({ ...pathInfo, pathParams: [] }, apiData, name, urlPath || "/"),
+      4,
+    );
+    const memberStart = methodCode.indexOf(`\n${name}: `) + 1;
+    members.push({
+      name,
+      doc: methodCode.slice(0, memberStart),
+      code: methodCode.slice(memberStart + name.length + 2).replace(/,\n$/, ""),
+    });
+  }
+
+  for (const [segment, child] of node.children) {
+    members.push({
+      name: uniqueMemberName(getSegmentIdentifier(segment), taken, renames, {
+        path: `${path}/${segment}`,
+        scope,
+      }),
+      doc: "",
+      code: generateResourceNodeCode(child, `${urlPath}/${segment}`, apiData, renames),
+    });
+  }
+
+  for (const { segment, node: child } of paramMembers) {
+    members.push({
+      name: uniqueMemberName(getSegmentIdentifier(segment), taken, renames, {
+        path: `${path}/${segment}`,
+        scope,
+      }),
+      doc: "",
+      code: generateParamChildCode(segment, child, urlPath, apiData, renames),
+    });
+  }
+
+  return members;
+}
+
+/**
+ * A node is an object of its members, a function taking the path parameters
+ * of its parameterised child, or both (`client.users.list()` and `client.users(id)`).
+ * With several parameterised children the plain "{id}" one is called, the
+ * others are members (`client.lists.listJson(list)` for "/lists/{list}.json").
+ */
+function generateResourceNodeCode(
+  node: ResourceNode,
+  urlPath: string,
+  apiData: OpenAPIData,
+  renames: MethodNameRename[],
+): string {
+  const paramChildren = [...node.paramChildren.values()];
+  const called = node.paramChildren.get("{}") ?? paramChildren[0];
+  const members = generateResourceNodeMembers(
+    node,
+    urlPath,
+    apiData,
+    renames,
+    paramChildren.filter((child) => child !== called),
+  );
+  const objectCode = `{\n${
+    members.map(({ name, doc, code }) => indentCode(`${doc}${name}: ${code},\n`, 2)).join("")
+  }}`;
+
+  if (!called) {
+    return objectCode;
+  }
+
+  const functionCode = generateParamChildCode(called.segment, called.node, urlPath, apiData, renames);
+  return members.length > 0 ? `Object.assign(${functionCode}, ${objectCode})` : functionCode;
+}
+
+/**
+ * A function taking the path parameters of `segment` and returning its node
+ */
+function generateParamChildCode(
+  segment: string,
+  node: ResourceNode,
+  urlPath: string,
+  apiData: OpenAPIData,
+  renames: MethodNameRename[],
+): string {
+  const params = segment.match(/\{([^}]+)\}/g)!.map((param) => param.slice(1, -1));
+  return `(${getPathParamsSignature(params, collectPathParameters(node))}) => (${
+    generateResourceNodeCode(node, `${urlPath}/${getUrlPath(segment)}`, apiData, renames)
+  })`;
+}
+
+/**
+ * Path parameter declarations of every operation below a node, the function
+ * for a parameterised segment takes its types from them
+ */
+function collectPathParameters(node: ResourceNode): OpenAPIParameter[] {
+  return [
+    ...Object.values(node.operations).flatMap((pathInfo) => getParameters(pathInfo.operation, "path")),
+    ...[...node.children.values()].flatMap(collectPathParameters),
+    ...[...node.paramChildren.values()].flatMap((child) => collectPathParameters(child.node)),
+  ];
 }
 
-function analyzePath(path: string, method: string, operation: any): PathInfo {
+function getSegmentIdentifier(segment: string): string {
+  return toIdentifier(segment.replaceAll(".", "-"));
+}
+
+/**
+ * Returns `name`, or `name2`, `name3`... when it is already taken, and records
+ * the rename so it can be reported
+ */
+function uniqueMemberName(
+  name: string,
+  taken: Set<string>,
+  renames: MethodNameRename[],
+  member: Omit<MethodNameRename, "originalName" | "name">,
+): string {
+  let unique = name;
+  for (let counter = 2; taken.has(unique); counter++) {
+    unique = `${name}${counter}`;
+  }
+  taken.add(unique);
+  if (unique !== name) {
+    renames.push({ ...member, originalName: name, name: unique });
+  }
+  return unique;
+}
+
+function dedentCode(code: string, spaces: number): string {
+  const indent = new RegExp(`^ {0,${spaces}}`, "gm");
+  return code.replace(indent, "");
+}
+
+function indentCode(code: string, spaces: number): string {
+  const indent = " ".repeat(spaces);
+  return code
+    .split("\n")
+    .map((line) => (line.trim() ? indent + line : line))
+    .join("\n");
+}
+
+function analyzePath(
+  path: string,
+  method: string,
+  operation: OpenAPIOperation,
+  binaryResponseType: ResponseKind = "blob",
+): PathInfo {
   // Extract resource name from path
   const pathSegments = path.split("/").filter((segment) =>
     segment && !segment.startsWith("{")
@@ -201,6 +1156,9 @@ function analyzePath(path: string, method: string, operation: any): PathInfo {
     isCollection,
     isResource,
     pathParams,
+    responseKind: getResponseKind(operation, binaryResponseType),
+    throwOnError: false,
+    validate: false,
   };
 }
 
@@ -241,9 +1199,9 @@ function generateCollectionMethods(
   
   let code = useNestedStructure ? `    ${resourceName}: {\n` : `    ${resourceName}: `;
 
-  // For GET requests
-  if (pathInfo.method === "get") {
-    const responseType = getResponseType(pathInfo.operation);
+  // For GET, HEAD, OPTIONS and TRACE requests
+  if (QUERY_METHODS.includes(pathInfo.method)) {
+    const returnType = getReturnType(pathInfo);
     const methodName = useNestedStructure ? getMethodName(pathInfo.operation, "queryParams") : "";
     const securityRequirements = getSecurityRequirements(pathInfo.operation, apiData);
     
@@ -260,7 +1218,7 @@ function generateCollectionMethods(
       const { type: queryParamsType, hasRequired: hasRequiredParams } = getQueryParamsType(pathInfo.operation);
       const defaultValue = hasRequiredParams ? "" : " = {}";
       code +=
-        `      ${methodName}: async (params: ${queryParamsType}${defaultValue}): Promise<ApiResponse<${responseType}>> => {\n`;
+        `      ${methodName}: async (${[`params: ${queryParamsType}${defaultValue}`, ...getTrailingParamsSignature(pathInfo.operation)].join(", ")}): Promise<${returnType}> => {\n`;
     } else {
       code += `/**\n`;
       code += ` * ${pathInfo.operation.summary || resourceName}\n`;
@@ -274,35 +1232,24 @@ function generateCollectionMethods(
       const { type: queryParamsType, hasRequired: hasRequiredParams } = getQueryParamsType(pathInfo.operation);
       const defaultValue = hasRequiredParams ? "" : " = {}";
       code +=
-        `async (params: ${queryParamsType}${defaultValue}): Promise<ApiResponse<${responseType}>> => {\n`;
+        `async (${[`params: ${queryParamsType}${defaultValue}`, ...getTrailingParamsSignature(pathInfo.operation)].join(", ")}): Promise<${returnType}> => {\n`;
       code += `      `;
     }
     code +=
-      `const url = new URL(\`\${this.config.baseUrl}${pathInfo.path}\`);\n`;
-    code += `${useNestedStructure ? '' : '      '}Object.entries(params).forEach(([key, value]) => {\n`;
-    code += `${useNestedStructure ? '' : '      '}  if (value !== undefined) {\n`;
-    code += `${useNestedStructure ? '' : '      '}    url.searchParams.append(key, String(value));\n`;
-    code += `${useNestedStructure ? '' : '      '}  }\n`;
-    code += `${useNestedStructure ? '' : '      '}});\n`;
+      `const url = resolveUrl(this.config.baseUrl, \`${getUrlPath(pathInfo.path)}\`, serializeQuery(params${getQueryStylesCode(pathInfo.operation)}));\n`;
     code += `        \n`;
-    code += `${useNestedStructure ? '' : '      '}const response = await fetch(url.toString(), {\n`;
+    code += `${useNestedStructure ? '' : '      '}const response = await ${getSendRequestCall(pathInfo)}url, {\n`;
     code += `${useNestedStructure ? '' : '      '}  method: '${pathInfo.method.toUpperCase()}',\n`;
-    code += `${useNestedStructure ? '' : '      '}  headers: this.config.headers,\n`;
+    code += `${useNestedStructure ? '' : '      '}  headers: ${getRequestHeadersCode(pathInfo.operation)},\n`;
     code += `${useNestedStructure ? '' : '      '}});\n`;
     code += `        \n`;
-    code += `${useNestedStructure ? '' : '      '}const data = await response.json();\n`;
-    code += `${useNestedStructure ? '' : '      '}return {\n`;
-    code += `${useNestedStructure ? '' : '      '}  data,\n`;
-    code += `${useNestedStructure ? '' : '      '}  status: response.status,\n`;
-    code += `${useNestedStructure ? '' : '      '}  statusText: response.statusText,\n`;
-    code += `${useNestedStructure ? '' : '      '}};\n`;
+    code += getResponseCode(pathInfo, useNestedStructure ? '' : '      ');
     code += useNestedStructure ? `      },\n` : `    },\n`;
   }
 
   // Generate data method for POST/PUT/PATCH requests
   if (pathInfo.operation.requestBody) {
     const requestType = getRequestType(pathInfo.operation);
-    const responseType = getResponseType(pathInfo.operation);
     const methodName = useNestedStructure ? getMethodName(pathInfo.operation, "data") : "";
     const securityRequirements = getSecurityRequirements(pathInfo.operation, apiData);
     
@@ -317,7 +1264,7 @@ function generateCollectionMethods(
       }
       code += `       */\n`;
       code +=
-        `      ${methodName}: async (body: ${requestType}): Promise<ApiResponse<${responseType}>> => {\n`;
+        `      ${methodName}: async (${[`body: ${requestType}`, ...getTrailingParamsSignature(pathInfo.operation)].join(", ")}): Promise<${getReturnType(pathInfo)}> => {\n`;
     } else {
       code += `/**\n`;
       code += ` * ${pathInfo.operation.summary || resourceName}\n`;
@@ -329,25 +1276,22 @@ function generateCollectionMethods(
       }
       code += ` */\n`;
       code +=
-        `async (body: ${requestType}): Promise<ApiResponse<${responseType}>> => {\n`;
+        `async (${[`body: ${requestType}`, ...getTrailingParamsSignature(pathInfo.operation)].join(", ")}): Promise<${getReturnType(pathInfo)}> => {\n`;
       code += `      `;
     }
     code +=
-      `const response = await fetch(\`\${this.config.baseUrl}${pathInfo.path}\`, {\n`;
+      `const response = await ${getSendRequestCall(pathInfo)}resolveUrl(this.config.baseUrl, \`${getUrlPath(pathInfo.path)}\`), {\n`;
     code += `${useNestedStructure ? '' : '      '}  method: '${pathInfo.method.toUpperCase()}',\n`;
+    const requestBody = getRequestBodyOptions(pathInfo);
     code += `${useNestedStructure ? '' : '      '}  headers: {\n`;
-    code += `${useNestedStructure ? '' : '      '}    'Content-Type': 'application/json',\n`;
-    code += `${useNestedStructure ? '' : '      '}    ...this.config.headers,\n`;
+    requestBody.headers.forEach((header) => {
+      code += `${useNestedStructure ? '' : '      '}    ${header},\n`;
+    });
     code += `${useNestedStructure ? '' : '      '}  },\n`;
-    code += `${useNestedStructure ? '' : '      '}  body: JSON.stringify(body),\n`;
+    code += `${useNestedStructure ? '' : '      '}  body: ${requestBody.body},\n`;
     code += `${useNestedStructure ? '' : '      '}});\n`;
     code += `        \n`;
-    code += `${useNestedStructure ? '' : '      '}const data = await response.json();\n`;
-    code += `${useNestedStructure ? '' : '      '}return {\n`;
-    code += `${useNestedStructure ? '' : '      '}  data,\n`;
-    code += `${useNestedStructure ? '' : '      '}  status: response.status,\n`;
-    code += `${useNestedStructure ? '' : '      '}  statusText: response.statusText,\n`;
-    code += `${useNestedStructure ? '' : '      '}};\n`;
+    code += getResponseCode(pathInfo, useNestedStructure ? '' : '      ');
     code += useNestedStructure ? `      },\n` : `    },\n`;
   }
 
@@ -359,24 +1303,33 @@ function generateCollectionMethods(
   return code;
 }
 
+function isCurriedMethod(method: string): boolean {
+  return method === "post" || method === "put" || method === "delete" || method === "patch";
+}
+
+function getSingularName(resourceName: string): string {
+  return resourceName.endsWith("s") ? resourceName.slice(0, -1) : resourceName;
+}
+
 function generateResourceMethods(
   resourceName: string,
   pathInfo: PathInfo,
   apiData: OpenAPIData,
+  singularName: string = getSingularName(resourceName),
 ): string {
-  const singularName = resourceName.endsWith("s")
-    ? resourceName.slice(0, -1)
-    : resourceName;
-  const paramName = pathInfo.pathParams[0] || "id";
+  const pathParamsSignature = getPathParamsSignature(
+    pathInfo.pathParams,
+    getParameters(pathInfo.operation, "path"),
+  );
+  const urlPath = getUrlPath(pathInfo.path);
 
-  const responseType = getResponseType(pathInfo.operation);
   const securityRequirements = getSecurityRequirements(pathInfo.operation, apiData);
 
-  // If this is a GET request, return the old structure with .get() method
-  if (pathInfo.method === "get") {
-    const methodName = getMethodName(pathInfo.operation, "get");
+  // If this is a GET request, return the old structure with .get() method (.head() for HEAD etc.)
+  if (QUERY_METHODS.includes(pathInfo.method)) {
+    const methodName = getMethodName(pathInfo.operation, pathInfo.method);
     
-    let code = `    ${singularName}: (${paramName}: string) => ({\n`;
+    let code = `    ${singularName}: (${pathParamsSignature}) => ({\n`;
     code += `      /**\n`;
     code += `       * ${pathInfo.operation.summary || methodName}\n`;
     if (pathInfo.operation.description) {
@@ -386,20 +1339,13 @@ function generateResourceMethods(
       code += `       * @requires ${securityRequirements.join(', ')}\n`;
     }
     code += `       */\n`;
-    code += `      ${methodName}: async (): Promise<ApiResponse<${responseType}>> => {\n`;
-    code += `        const response = await fetch(\`\${this.config.baseUrl}${
-      pathInfo.path.replace("{" + paramName + "}", "${" + paramName + "}")
-    }\`, {\n`;
+    code += `      ${methodName}: async (${getTrailingParamsSignature(pathInfo.operation).join(", ")}): Promise<${getReturnType(pathInfo)}> => {\n`;
+    code += `        const response = await ${getSendRequestCall(pathInfo)}resolveUrl(this.config.baseUrl, \`${urlPath}\`), {\n`;
     code += `          method: '${pathInfo.method.toUpperCase()}',\n`;
-    code += `          headers: this.config.headers,\n`;
+    code += `          headers: ${getRequestHeadersCode(pathInfo.operation)},\n`;
     code += `        });\n`;
     code += `        \n`;
-    code += `        const data = await response.json();\n`;
-    code += `        return {\n`;
-    code += `          data,\n`;
-    code += `          status: response.status,\n`;
-    code += `          statusText: response.statusText,\n`;
-    code += `        };\n`;
+    code += getResponseCode(pathInfo, "        ");
     code += `      },\n`;
     code += `    }),\n`;
     return code;
@@ -409,7 +1355,7 @@ function generateResourceMethods(
   if (pathInfo.operation.requestBody) {
     const requestType = getRequestType(pathInfo.operation);
     
-    let code = `    ${singularName}: (${paramName}: string) => `;
+    let code = `    ${singularName}: (${pathParamsSignature}) => `;
     code += `/**\n`;
     code += ` * ${pathInfo.operation.summary || resourceName}\n`;
     if (pathInfo.operation.description) {
@@ -420,31 +1366,26 @@ function generateResourceMethods(
     }
     code += ` */\n`;
     code +=
-      `async (body: ${requestType}): Promise<ApiResponse<${responseType}>> => {\n`;
-    code += `      const response = await fetch(\`\${this.config.baseUrl}${
-      pathInfo.path.replace("{" + paramName + "}", "${" + paramName + "}")
-    }\`, {\n`;
+      `async (${[`body: ${requestType}`, ...getTrailingParamsSignature(pathInfo.operation)].join(", ")}): Promise<${getReturnType(pathInfo)}> => {\n`;
+    code += `      const response = await ${getSendRequestCall(pathInfo)}resolveUrl(this.config.baseUrl, \`${urlPath}\`), {\n`;
     code += `        method: '${pathInfo.method.toUpperCase()}',\n`;
+    const requestBody = getRequestBodyOptions(pathInfo);
     code += `        headers: {\n`;
-    code += `          'Content-Type': 'application/json',\n`;
-    code += `          ...this.config.headers,\n`;
+    requestBody.headers.forEach((header) => {
+      code += `          ${header},\n`;
+    });
     code += `        },\n`;
-    code += `        body: JSON.stringify(body),\n`;
+    code += `        body: ${requestBody.body},\n`;
     code += `      });\n`;
     code += `      \n`;
-    code += `      const data = await response.json();\n`;
-    code += `      return {\n`;
-    code += `        data,\n`;
-    code += `        status: response.status,\n`;
-    code += `        statusText: response.statusText,\n`;
-    code += `      };\n`;
+    code += getResponseCode(pathInfo, "      ");
     code += `    },\n`;
     return code;
   }
 
   // Generate delete method
   if (pathInfo.method === "delete") {
-    let code = `    ${singularName}: (${paramName}: string) => `;
+    let code = `    ${singularName}: (${pathParamsSignature}) => `;
     code += `/**\n`;
     code += ` * ${pathInfo.operation.summary || resourceName}\n`;
     if (pathInfo.operation.description) {
@@ -454,19 +1395,13 @@ function generateResourceMethods(
       code += ` * @requires ${securityRequirements.join(', ')}\n`;
     }
     code += ` */\n`;
-    code += `async (): Promise<ApiResponse<void>> => {\n`;
-    code += `      const response = await fetch(\`\${this.config.baseUrl}${
-      pathInfo.path.replace("{" + paramName + "}", "${" + paramName + "}")
-    }\`, {\n`;
+    code += `async (${getTrailingParamsSignature(pathInfo.operation).join(", ")}): Promise<${getReturnType(pathInfo)}> => {\n`;
+    code += `      const response = await ${getSendRequestCall(pathInfo)}resolveUrl(this.config.baseUrl, \`${urlPath}\`), {\n`;
     code += `        method: '${pathInfo.method.toUpperCase()}',\n`;
-    code += `        headers: this.config.headers,\n`;
+    code += `        headers: ${getRequestHeadersCode(pathInfo.operation)},\n`;
     code += `      });\n`;
     code += `      \n`;
-    code += `      return {\n`;
-    code += `        data: undefined,\n`;
-    code += `        status: response.status,\n`;
-    code += `        statusText: response.statusText,\n`;
-    code += `      };\n`;
+    code += getResponseCode(pathInfo, "      ");
     code += `    },\n`;
     return code;
   }
@@ -475,21 +1410,104 @@ function generateResourceMethods(
   return `    ${singularName}: () => {},\n`;
 }
 
-function getQueryParamsType(operation: any): { type: string, hasRequired: boolean } {
-  if (!operation.parameters || !Array.isArray(operation.parameters)) {
-    return { type: "QueryParams", hasRequired: false };
+const RESERVED_WORDS = [
+  "arguments", "await", "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete",
+  "do", "else", "enum", "eval", "export", "extends", "false", "finally", "for", "function", "if", "implements",
+  "import", "in", "instanceof", "interface", "let", "new", "null", "package", "private", "protected", "public",
+  "return", "static", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void", "while", "with",
+  "yield",
+];
+
+/** Arguments, locals and helpers of the generated methods, path parameters would shadow them */
+const GENERATED_METHOD_NAMES = [
+  "params", "body", "headers", "cookies", "options", "url", "response", "data",
+  "sendRequest", "resolveUrl", "serializeQuery", "parseResponse", "encodeURIComponent", "String",
+];
+
+/**
+ * Converts a name like "item-id" into camelCase ("itemId")
+ */
+function toIdentifier(name: string): string {
+  const identifier = name
+    .split(/[^a-zA-Z0-9_$]+/)
+    .filter(Boolean)
+    .map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier || "param";
+}
+
+/**
+ * Converts a path parameter name like "item-id" into a valid identifier
+ * ("itemId"), `{class}` and `{params}` become `_class` and `_params`
+ */
+function getPathParamIdentifier(param: string): string {
+  const identifier = toIdentifier(param);
+  return RESERVED_WORDS.includes(identifier) || GENERATED_METHOD_NAMES.includes(identifier)
+    ? `_${identifier}`
+    : identifier;
+}
+
+/**
+ * Path parameters are typed from their declaration's schema (`id: number`,
+ * `status: "open" | "closed"`), undeclared ones are strings
+ */
+function getPathParamsSignature(pathParams: string[], parameters: OpenAPIParameter[] = []): string {
+  return pathParams.map((param) => {
+    const declaration = parameters.find((p) => p.name === param && p.schema);
+    const type = declaration ? convertSchemaToType(declaration.schema) : "string";
+    return `${getPathParamIdentifier(param)}: ${type}`;
+  }).join(", ");
+}
+
+/**
+ * Turns "/vaults/{vaultUuid}/items/{itemUuid}" into a template literal body
+ * that substitutes every path parameter, percent-encoded so values such as
+ * "a/b?c" stay within their segment
+ */
+function getUrlPath(path: string): string {
+  return path.replace(
+    /\{([^}]+)\}/g,
+    (_, param) => `\${encodeURIComponent(String(${getPathParamIdentifier(param)}))}`,
+  );
+}
+
+/**
+ * Merges path-level parameters into the operation's own, an operation parameter
+ * overrides a path-level one with the same name and location
+ */
+export function mergeParameters(
+  pathParameters: unknown,
+  operationParameters: unknown,
+): OpenAPIParameter[] | undefined {
+  if (!Array.isArray(pathParameters)) {
+    return Array.isArray(operationParameters) ? operationParameters : undefined;
   }
+  if (!Array.isArray(operationParameters)) return pathParameters;
 
-  const queryParams = operation.parameters.filter((p: any) => p.in === "query");
-  
-  if (queryParams.length === 0) {
-    return { type: "QueryParams", hasRequired: false };
+  const overridden = (parameter: OpenAPIParameter) =>
+    operationParameters.some((p: OpenAPIParameter) => p.name === parameter.name && p.in === parameter.in);
+  return [...pathParameters.filter((p: OpenAPIParameter) => !overridden(p)), ...operationParameters];
+}
+
+function getParameters(operation: OpenAPIOperation, location: string): OpenAPIParameter[] {
+  if (!operation.parameters || !Array.isArray(operation.parameters)) {
+    return [];
   }
 
+  return operation.parameters.filter((p) =>
+    p.in === location &&
+    !(location === "header" && IGNORED_HEADER_PARAMS.includes(String(p.name).toLowerCase()))
+  );
+}
+
+/**
+ * Builds an object type such as `{ limit?: number; "X-Request-Id": string }` from a parameter list
+ */
+function getParamsObjectType(parameters: OpenAPIParameter[]): { type?: string, hasRequired: boolean } {
   const properties: string[] = [];
   let hasRequired = false;
   
-  for (const param of queryParams) {
+  for (const param of parameters) {
     const isRequired = param.required === true;
     if (isRequired) hasRequired = true;
     const optional = isRequired ? "" : "?";
@@ -500,101 +1518,332 @@ function getQueryParamsType(operation: any): { type: string, hasRequired: boolea
     properties.push(`${escapedParamName}${optional}: ${paramType}`);
   }
 
-  const type = properties.length > 0 ? `{ ${properties.join("; ")} }` : "QueryParams";
+  const type = properties.length > 0 ? `{ ${properties.join("; ")} }` : undefined;
   return { type, hasRequired };
 }
 
-function getResponseType(operation: any): string {
-  const response = operation.responses?.["200"] ||
-    operation.responses?.["201"] || operation.responses?.["204"];
-  if (!response) return "any";
+function getQueryParamsType(operation: OpenAPIOperation): { type: string, hasRequired: boolean } {
+  const { type, hasRequired } = getParamsObjectType(getParameters(operation, "query"));
+  return { type: type ?? "QueryParams", hasRequired };
+}
 
-  const schema = response.content?.["application/json"]?.schema;
-  if (!schema) return "any";
+/**
+ * The serializeQuery settings of query parameters that aren't serialized as
+ * `style: form, explode: true`
+ */
+function getQueryStyles(operation: OpenAPIOperation): Record<string, QueryStyle> {
+  const styles: Record<string, QueryStyle> = {};
 
-  return convertSchemaToType(schema);
+  for (const param of getParameters(operation, "query")) {
+    const style = param.style ?? "form";
+    const explode = param.explode ?? style === "form";
+    if (style === "form" && explode && !param.allowReserved) continue;
+
+    styles[param.name] = param.allowReserved ? { style, explode, allowReserved: true } : { style, explode };
+  }
+
+  return styles;
 }
 
-function getRequestType(operation: any): string {
-  const schema = operation.requestBody?.content?.["application/json"]?.schema ||
-                  operation.requestBody?.content?.["application/x-www-form-urlencoded"]?.schema;
-  if (!schema) return "any";
+/**
+ * The serializeQuery styles argument, e.g. `, { filter: { style: "deepObject", explode: true } }`
+ */
+function getQueryStylesCode(operation: OpenAPIOperation): string {
+  const styles = Object.entries(getQueryStyles(operation)).map(([name, { style, explode, allowReserved }]) => {
+    const settings = [`style: "${style}"`, `explode: ${explode}`];
+    if (allowReserved) {
+      settings.push("allowReserved: true");
+    }
+    return `${JSON.stringify(name)}: { ${settings.join(", ")} }`;
+  });
 
-  return convertSchemaToType(schema);
+  return styles.length > 0 ? `, { ${styles.join(", ")} }` : "";
 }
 
-function convertSchemaToType(schema: any): string {
-  if (!schema || typeof schema !== "object") {
-    return "any";
+/**
+ * Typed `headers` and `cookies` arguments for the operation's header and cookie
+ * parameters, then the per-call `options` every operation takes last
+ */
+function getTrailingParamsSignature(operation: OpenAPIOperation): string[] {
+  const signature: string[] = [];
+  for (const [location, argument] of [["header", "headers"], ["cookie", "cookies"]]) {
+    const { type, hasRequired } = getParamsObjectType(getParameters(operation, location));
+    if (type) {
+      signature.push(`${argument}: ${type}${hasRequired ? "" : " = {}"}`);
+    }
   }
+  signature.push("options: RequestOptions = {}");
+  return signature;
+}
 
-  if (schema.$ref) {
-    // Extract type name from reference like "#/components/schemas/Todo"
-    const refName = schema.$ref.split("/").pop() || "unknown";
-    return refName;
+/**
+ * Spreads the `headers` and `cookies` arguments into the request headers
+ */
+function getHeaderParamsSpread(operation: OpenAPIOperation): string {
+  const spread: string[] = [];
+  if (getParameters(operation, "header").length > 0) {
+    spread.push("...toHeaderValues(headers)");
   }
-  
-  // Handle anyOf, oneOf, allOf
-  if (schema.anyOf && Array.isArray(schema.anyOf)) {
-    const types = schema.anyOf.map((s: any) => convertSchemaToType(s));
-    return types.join(" | ");
+  if (getParameters(operation, "cookie").length > 0) {
+    spread.push("...toCookieHeader(cookies)");
   }
-  
-  if (schema.oneOf && Array.isArray(schema.oneOf)) {
-    const types = schema.oneOf.map((s: any) => convertSchemaToType(s));
-    return types.join(" | ");
+  return spread.join(", ");
+}
+
+function getRequestHeadersCode(operation: OpenAPIOperation): string {
+  const spread = getHeaderParamsSpread(operation);
+  return spread ? `{ ...this.config.headers, ${spread} }` : "this.config.headers";
+}
+
+function getSuccessResponse(operation: OpenAPIOperation): OpenAPIResponse | undefined {
+  const responses = operation.responses ?? {};
+  return responses["200"] || responses["201"] || responses["204"] ||
+    Object.entries(responses).find(([status]) => /^2(\d\d|XX)$/.test(status))?.[1];
+}
+
+/**
+ * The content type the success response is read as, JSON when it documents it
+ */
+function getResponseContentType(response: OpenAPIResponse | undefined): string | undefined {
+  const contentTypes = Object.keys(response?.content ?? {});
+  return contentTypes.find(isJsonContentType) ?? contentTypes[0];
+}
+
+function isTextContentType(contentType: string): boolean {
+  return contentType.startsWith("text/") || contentType === "application/xml" || contentType.endsWith("+xml");
+}
+
+function getResponseKind(operation: OpenAPIOperation, binaryResponseType: ResponseKind): ResponseKind {
+  const contentType = getResponseContentType(getSuccessResponse(operation));
+  // Undocumented content is parsed as JSON, like it always was
+  if (!contentType || isJsonContentType(contentType)) return "json";
+  if (STREAM_CONTENT_TYPES.includes(contentType)) return "stream";
+  if (isTextContentType(contentType)) return "text";
+
+  const schema = getSuccessResponse(operation)?.content?.[contentType]?.schema;
+  if (contentType.includes("*") && schema?.format !== "binary") return "json";
+  return binaryResponseType;
+}
+
+function getResponseBodyType(response: OpenAPIResponse, kind: ResponseKind): string {
+  const contentType = getResponseContentType(response);
+  if (!contentType) return "any";
+
+  switch (kind) {
+    case "text":
+      return "string";
+    case "blob":
+      return "Blob";
+    case "arrayBuffer":
+      return "ArrayBuffer";
+    case "stream":
+      return "ReadableStream<Uint8Array>";
   }
-  
-  if (schema.allOf && Array.isArray(schema.allOf)) {
-    const types = schema.allOf.map((s: any) => convertSchemaToType(s));
-    return types.join(" & ");
+  const schema = response.content?.[contentType]?.schema;
+  return schema ? convertSchemaToType(schema) : "any";
+}
+
+function getResponseType(pathInfo: PathInfo): string {
+  const operation = pathInfo.operation;
+  const response = getSuccessResponse(operation);
+  if (!response) return "any";
+
+  // 204 and 205 responses have no body
+  const noContent = ["204", "205"].some((status) => operation.responses?.[status]);
+  if (!getResponseContentType(response)) {
+    return noContent && response === operation.responses?.["204"] ? "void" : "any";
   }
-  
-  if (schema.type === "string") {
-    return "string";
+
+  const type = getResponseBodyType(response, pathInfo.responseKind);
+  return noContent && type !== "any" ? `${type} | undefined` : type;
+}
+
+/**
+ * One `StatusResponse` per documented status, but only for operations that
+ * document error responses: a union of success statuses alone adds nothing
+ */
+function getStatusResponseTypes(pathInfo: PathInfo): string[] | undefined {
+  const responses = Object.entries<OpenAPIResponse>(pathInfo.operation.responses ?? {});
+  if (!responses.some(([status]) => /^([45](\d\d|XX)|default)$/.test(status))) return undefined;
+
+  const hasSuccess = responses.some(([status]) => status.startsWith("2"));
+  return responses.map(([status, response]) => {
+    // Ranges (4XX) and default cover any status
+    const statusType = /^\d{3}$/.test(status) ? status : "number";
+    if (status.startsWith("2")) {
+      const dataType = status === "204" || status === "205"
+        ? "undefined"
+        : getResponseBodyType(response, pathInfo.responseKind);
+      return `StatusResponse<${statusType}, ${dataType}, true>`;
+    }
+
+    const contentType = getResponseContentType(response);
+    const dataType = getResponseBodyType(response, contentType && isTextContentType(contentType) ? "text" : "json");
+    // A lone default response describes successes too
+    const ok = status === "default" && !hasSuccess ? "boolean" : "false";
+    return `StatusResponse<${statusType}, ${dataType}, ${ok}>`;
+  });
+}
+
+/**
+ * HEAD responses have no body, they resolve to the documented response headers
+ */
+function getReturnType(pathInfo: PathInfo): string {
+  if (pathInfo.method === "head") {
+    return `HeadResponse<${getResponseHeadersType(pathInfo.operation)}>`;
   }
-  
-  if (schema.type === "number" || schema.type === "integer") {
-    return "number";
+  const statusResponses = pathInfo.throwOnError ? undefined : getStatusResponseTypes(pathInfo);
+  return statusResponses ? statusResponses.join(" | ") : `ApiResponse<${getResponseType(pathInfo)}>`;
+}
+
+function getResponseHeadersType(operation: OpenAPIOperation): string {
+  const response = operation.responses?.["200"] || operation.responses?.["204"] ||
+    Object.entries(operation.responses ?? {}).find(([status]) => status.startsWith("2"))?.[1];
+  const headers = Object.entries(response?.headers ?? {});
+  if (headers.length === 0) return "ResponseHeaders";
+
+  const properties = headers.map(([name, header]) => {
+    // fetch exposes header names in lower case, and every value is a string
+    const headerName = name.toLowerCase();
+    const escapedName = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(headerName) ? headerName : `"${headerName}"`;
+    const schema = header?.schema;
+    const values: unknown[] = schema?.enum ?? (schema?.const !== undefined ? [schema.const] : []);
+    const headerType = values.length > 0 && values.every((value) => typeof value === "string")
+      ? convertSchemaToType(schema)
+      : "string";
+    return `${escapedName}${header?.required ? "" : "?"}: ${headerType}`;
+  });
+
+  return `{ ${properties.join("; ")} }`;
+}
+
+function getOperationId(pathInfo: PathInfo): string {
+  return pathInfo.operation.operationId ?? `${pathInfo.method.toUpperCase()} ${pathInfo.path}`;
+}
+
+/**
+ * The union of an operation's documented error bodies
+ */
+function getErrorBodyType(pathInfo: PathInfo): string {
+  const responses = Object.entries<OpenAPIResponse>(pathInfo.operation.responses ?? {});
+  const hasSuccess = responses.some(([status]) => status.startsWith("2"));
+  const types = responses
+    .filter(([status]) => /^[45](\d\d|XX)$/.test(status) || (status === "default" && hasSuccess))
+    .map(([, response]) => {
+      const contentType = getResponseContentType(response);
+      return getResponseBodyType(response, contentType && isTextContentType(contentType) ? "text" : "json");
+    });
+  if (types.length === 0 || types.includes("any")) return "any";
+  return [...new Set(types)].join(" | ");
+}
+
+/**
+ * The start of an operation's call to the shared request function, followed by
+ * the URL and the fetch options
+ */
+function getSendRequestCall(pathInfo: PathInfo): string {
+  return `sendRequest(this.config, ${JSON.stringify(getOperationId(pathInfo))}, options, `;
+}
+
+function getThrowCode(pathInfo: PathInfo, indent: string): string {
+  if (!pathInfo.throwOnError) return "";
+  return `${indent}if (!response.ok) await throwApiError(${JSON.stringify(getOperationId(pathInfo))}, response);\n`;
+}
+
+/**
+ * Reads the body of `response` and returns it with its status, as the return
+ * type of the operation describes
+ */
+function getResponseCode(pathInfo: PathInfo, indent: string): string {
+  if (pathInfo.method === "head") return getHeadResponseCode(pathInfo, indent);
+
+  // Error bodies are JSON (or text) even when successes are binary
+  const statusResponses = pathInfo.throwOnError ? undefined : getStatusResponseTypes(pathInfo);
+  const isStatusUnion = statusResponses !== undefined;
+  const kind = isStatusUnion && pathInfo.responseKind !== "json"
+    ? `response.ok ? "${pathInfo.responseKind}" : "json"`
+    : `"${pathInfo.responseKind}"`;
+  let code = getThrowCode(pathInfo, indent);
+  code += `${indent}const data = await parseResponse(response, ${kind});\n`;
+  const successResponse = getSuccessResponse(pathInfo.operation);
+  const schema = successResponse?.content?.[getResponseContentType(successResponse) ?? ""]?.schema;
+  if (pathInfo.validate && pathInfo.responseKind === "json" && schema) {
+    const label = JSON.stringify(`${getOperationId(pathInfo)} response`);
+    code += `${indent}if (response.ok) checkSchema(this.config.validate, ${label}, data, ${JSON.stringify(schema)});\n`;
   }
-  
-  if (schema.type === "boolean") {
-    return "boolean";
+  code += `${indent}return {\n`;
+  code += `${indent}  data,\n`;
+  code += `${indent}  ok: response.ok,\n`;
+  code += `${indent}  status: response.status,\n`;
+  code += `${indent}  statusText: response.statusText,\n`;
+  // The status narrows the union, which the compiler can't tell from response.status
+  code += `${indent}}${isStatusUnion ? ` as ${statusResponses.join(" | ")}` : ""};\n`;
+  return code;
+}
+
+function getHeadResponseCode(pathInfo: PathInfo, indent: string): string {
+  let code = getThrowCode(pathInfo, indent);
+  code += `${indent}return {\n`;
+  const headersType = getResponseHeadersType(pathInfo.operation);
+  const headersCast = headersType === "ResponseHeaders" ? headersType : `${headersType} & ResponseHeaders`;
+  code += `${indent}  headers: Object.fromEntries(response.headers) as ${headersCast},\n`;
+  code += `${indent}  ok: response.ok,\n`;
+  code += `${indent}  status: response.status,\n`;
+  code += `${indent}  statusText: response.statusText,\n`;
+  code += `${indent}};\n`;
+  return code;
+}
+
+function getRequestType(operation: any): string {
+  const schema = operation.requestBody?.content?.[getRequestContentType(operation)]?.schema;
+  if (!schema) return "any";
+
+  return convertSchemaToType(schema);
+}
+
+export function isJsonContentType(contentType: string): boolean {
+  return contentType === "application/json" || contentType.endsWith("+json");
+}
+
+/**
+ * The content type the request body is sent as, JSON when the operation accepts it
+ */
+function getRequestContentType(operation: OpenAPIOperation): string {
+  const contentTypes = Object.keys(operation.requestBody?.content ?? {});
+  return contentTypes.find(isJsonContentType) ?? contentTypes[0] ?? "application/json";
+}
+
+/**
+ * The fetch `headers` entries and `body` expression for the operation's request
+ * body, serialized according to its content type
+ */
+function getRequestBodyOptions(pathInfo: PathInfo): { headers: string[]; body: string } {
+  const operation = pathInfo.operation;
+  const contentType = getRequestContentType(operation);
+  const schema = operation.requestBody?.content?.[contentType]?.schema;
+  const body = pathInfo.validate && schema
+    ? `checkSchema(this.config.validateRequests ? this.config.validate : "off", ${JSON.stringify(`${getOperationId(pathInfo)} request body`)}, body, ${JSON.stringify(schema)})`
+    : "body";
+  const headers = ["...this.config.headers"];
+  const headerParams = getHeaderParamsSpread(operation);
+  if (headerParams) {
+    headers.push(headerParams);
   }
-  
-  if (schema.type === "array") {
-    if (schema.items) {
-      const itemType = convertSchemaToType(schema.items);
-      return `${itemType}[]`;
-    }
-    return "any[]";
+
+  if (contentType === "multipart/form-data") {
+    // fetch sets the Content-Type header, including the multipart boundary
+    return { headers, body: `toFormData(${body})` };
   }
-  
-  if (schema.type === "object") {
-    // If it has properties, generate an inline type
-    if (schema.properties) {
-      const properties: string[] = [];
-      for (const [propName, propSchema] of Object.entries(schema.properties)) {
-        const isRequired = schema.required?.includes(propName) ?? false;
-        const optional = isRequired ? "" : "?";
-        const propType = convertSchemaToType(propSchema as any);
-        // Escape property names that aren't valid identifiers
-        const escapedPropName = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(propName) ? propName : `"${propName}"`;
-        properties.push(`${escapedPropName}${optional}: ${propType}`);
-      }
-      return `{ ${properties.join("; ")} }`;
-    }
-    return "Record<string, any>";
+  if (contentType === "application/x-www-form-urlencoded") {
+    return { headers: [`'Content-Type': '${contentType}'`, ...headers], body: `toUrlEncoded(${body})` };
   }
-  
-  if (schema.enum) {
-    const enumValues = schema.enum
-      .map((value: any) => typeof value === "string" ? `"${value}"` : String(value))
-      .join(" | ");
-    return enumValues;
+  if (isJsonContentType(contentType)) {
+    return { headers: [`'Content-Type': '${contentType}'`, ...headers], body: `JSON.stringify(${body})` };
   }
-  
-  return "any";
+  // Anything else (application/octet-stream, text/plain, image/png...) is sent as-is
+  return contentType.includes("*")
+    ? { headers, body }
+    : { headers: [`'Content-Type': '${contentType}'`, ...headers], body };
 }
 
 function getMethodName(operation: any, fallback: string): string {
@@ -626,28 +1875,7 @@ function getSecurityRequirements(operation: any, apiData: OpenAPIData): string[]
     for (const [schemeName, scopes] of Object.entries(securityRequirement)) {
       const scheme = apiData.components?.securitySchemes?.[schemeName];
       if (scheme) {
-        switch (scheme.type) {
-          case 'http':
-            if (scheme.scheme === 'basic') {
-              authTypes.push('Basic Authentication');
-            } else if (scheme.scheme === 'bearer') {
-              authTypes.push('Bearer Token');
-            } else {
-              authTypes.push(`HTTP ${scheme.scheme?.toUpperCase()}`);
-            }
-            break;
-          case 'apiKey':
-            authTypes.push(`API Key (${scheme.in}: ${scheme.name})`);
-            break;
-          case 'oauth2':
-            authTypes.push(`OAuth2${Array.isArray(scopes) && scopes.length > 0 ? ` (${scopes.join(', ')})` : ''}`);
-            break;
-          case 'openIdConnect':
-            authTypes.push('OpenID Connect');
-            break;
-          default:
-            authTypes.push(schemeName);
-        }
+        authTypes.push(describeSecurityScheme(schemeName, scheme, scopes as string[]));
       }
     }
   }
@@ -655,9 +1883,326 @@ function getSecurityRequirements(operation: any, apiData: OpenAPIData): string[]
   return authTypes;
 }
 
-function generateDirectMethod(pathInfo: PathInfo, apiData: OpenAPIData): string {
-  const methodName = getMethodName(pathInfo.operation, "");
-  const responseType = getResponseType(pathInfo.operation);
+function describeSecurityScheme(schemeName: string, scheme: SecurityScheme, scopes: string[] = []): string {
+  switch (scheme.type) {
+    case 'http':
+      if (scheme.scheme === 'basic') {
+        return 'Basic Authentication';
+      } else if (scheme.scheme === 'bearer') {
+        return 'Bearer Token';
+      }
+      return `HTTP ${scheme.scheme?.toUpperCase()}`;
+    case 'apiKey':
+      return `API Key (${scheme.in}: ${scheme.name})`;
+    case 'oauth2':
+      return `OAuth2${Array.isArray(scopes) && scopes.length > 0 ? ` (${scopes.join(', ')})` : ''}`;
+    case 'openIdConnect':
+      return 'OpenID Connect';
+    default:
+      return schemeName;
+  }
+}
+
+/**
+ * Token URLs of an OAuth2 scheme's flows: `tokenUrl` for client credentials,
+ * `refreshUrl` for refresh tokens, which the authorization code and password
+ * flows issue
+ */
+function getOAuth2Urls(scheme: SecurityScheme): { tokenUrl?: string; refreshUrl?: string } {
+  if (scheme.type !== 'oauth2') {
+    return {};
+  }
+  const { clientCredentials, authorizationCode, password } = scheme.flows ?? {};
+  return {
+    tokenUrl: clientCredentials?.tokenUrl,
+    refreshUrl: authorizationCode?.refreshUrl ?? password?.refreshUrl ?? clientCredentials?.refreshUrl ??
+      authorizationCode?.tokenUrl ?? password?.tokenUrl,
+  };
+}
+
+function usesOAuth2Flows(apiData: OpenAPIData): boolean {
+  return Object.values(apiData.components?.securitySchemes ?? {}).some((scheme) => {
+    const { tokenUrl, refreshUrl } = getOAuth2Urls(scheme);
+    return tokenUrl !== undefined || refreshUrl !== undefined;
+  });
+}
+
+/**
+ * The credentials type of a security scheme: the value of an API key, a
+ * username and password for Basic, and a token for the other schemes, or
+ * what OAuth2 flows need to get one
+ */
+function getCredentialType(scheme: SecurityScheme): string {
+  if (scheme.type === 'apiKey') {
+    return 'Credential';
+  }
+  if (scheme.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') {
+    return '{ username: string; password: string }';
+  }
+  const { tokenUrl, refreshUrl } = getOAuth2Urls(scheme);
+  return [
+    '{ token: Credential }',
+    ...(tokenUrl ? ['OAuth2ClientCredentials'] : []),
+    ...(refreshUrl ? ['OAuth2RefreshToken'] : []),
+  ].join(' | ');
+}
+
+/**
+ * `AuthConfig`, with a credentials property for every security scheme
+ */
+function generateAuthConfig(apiData: OpenAPIData): string {
+  const properties = Object.entries(apiData.components?.securitySchemes ?? {}).map(([name, scheme]) => {
+    const key = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+    return `  /** ${describeSecurityScheme(name, scheme)} */\n  ${key}?: ${getCredentialType(scheme)};`;
+  });
+
+  return `
+/**
+ * A credential, or a function returning the current one
+ */
+export type Credential = string | (() => string | Promise<string>);
+${usesOAuth2Flows(apiData) ? `
+/**
+ * Gets access tokens with the OAuth2 client credentials grant
+ */
+export interface OAuth2ClientCredentials {
+  clientId: string;
+  clientSecret: string;
+  /** Requested for operations that don't declare scopes */
+  scopes?: string[];
+  /** Replaces the spec's token URL, e.g. with a local stand-in */
+  tokenUrl?: string;
+}
+
+/**
+ * Gets access tokens with the OAuth2 refresh token grant
+ */
+export interface OAuth2RefreshToken {
+  clientId: string;
+  /** Confidential clients authenticate with it, public clients send only their id */
+  clientSecret?: string;
+  refreshToken: string;
+  /** Requested for operations that don't declare scopes */
+  scopes?: string[];
+  /** Replaces the spec's refresh URL, e.g. with a local stand-in */
+  tokenUrl?: string;
+  /** Called with the new refresh token when the server rotates it, to store it */
+  onRefreshToken?(refreshToken: string): void;
+}
+` : ''}
+/**
+ * Credentials for the API's security schemes
+ */
+export interface AuthConfig {
+${properties.join('\n')}
+}
+`;
+}
+
+/**
+ * The security schemes and every operation's requirements as data, and
+ * `applyAuth` which sends the credentials an operation needs
+ */
+function generateAuthRuntime(apiData: OpenAPIData, pathInfos: PathInfo[]): string {
+  const schemes = Object.entries(apiData.components?.securitySchemes ?? {}).map(([name, scheme]) => {
+    const { type, scheme: httpScheme, in: location, name: parameterName } = scheme;
+    const { tokenUrl, refreshUrl } = getOAuth2Urls(scheme);
+    return `  ${JSON.stringify(name)}: ${
+      JSON.stringify({ type, scheme: httpScheme, in: location, name: parameterName, tokenUrl, refreshUrl })
+    },`;
+  });
+  const operationSecurity = pathInfos.map((p) => {
+    return `  ${JSON.stringify(getOperationId(p))}: ${JSON.stringify(p.operation.security ?? apiData.security ?? [])},`;
+  });
+  const oauth2 = usesOAuth2Flows(apiData);
+
+  return `
+const SECURITY_SCHEMES: Record<string, { type: string; scheme?: string; in?: string; name?: string; tokenUrl?: string; refreshUrl?: string }> = {
+${schemes.join('\n')}
+};
+
+/**
+ * Each operation's \`security\`: alternatives, each naming the schemes that are sent together
+ */
+const OPERATION_SECURITY: Record<string, Record<string, string[]>[]> = {
+${operationSecurity.join('\n')}
+};
+
+function resolveCredential(credential: Credential): string | Promise<string> {
+  return typeof credential === "function" ? credential() : credential;
+}
+
+/**
+ * \`username:password\` in base64, UTF-8 encoded first as btoa only takes Latin-1
+ */
+function encodeBasicCredentials(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(\`\${username}:\${password}\`);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * The operation's first security requirement that \`auth\` has every
+ * credential for. An empty requirement needs none.
+ */
+function getAuthRequirement(auth: AuthConfig | undefined, operationId: string): Record<string, string[]> | undefined {
+  const credentials: Record<string, unknown> = { ...auth };
+  return (OPERATION_SECURITY[operationId] ?? []).find((item) => {
+    return Object.keys(item).every((name) => SECURITY_SCHEMES[name] && credentials[name] !== undefined);
+  });
+}
+${oauth2 ? `
+interface CachedToken {
+  token: Promise<string>;
+  expiresAt: number;
+}
+
+/** Access tokens per OAuth2 credentials object and scope */
+const oauth2Tokens = new WeakMap<object, Map<string, CachedToken>>();
+
+/** The latest refresh token per OAuth2 credentials object, servers may rotate them */
+const refreshTokens = new WeakMap<object, string>();
+
+/**
+ * Forgets the tokens of the operation's OAuth2 flows after a 401, and tells
+ * whether it has any
+ */
+function clearOAuth2Tokens(auth: AuthConfig | undefined, operationId: string): boolean {
+  const credentials: Record<string, any> = { ...auth };
+  const flows = Object.keys(getAuthRequirement(auth, operationId) ?? {})
+    .map((name) => credentials[name])
+    .filter((credential) => credential.clientId !== undefined);
+  for (const credential of flows) oauth2Tokens.delete(credential);
+  return flows.length > 0;
+}
+
+async function requestToken(
+  config: ClientConfig,
+  url: string,
+  credentials: OAuth2ClientCredentials | OAuth2RefreshToken,
+  params: Record<string, string>,
+): Promise<{ access_token: string; expires_in?: number; refresh_token?: string }> {
+  const body = new URLSearchParams(params);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (credentials.clientSecret !== undefined) {
+    const clientId = encodeURIComponent(credentials.clientId);
+    headers.Authorization = \`Basic \${btoa(\`\${clientId}:\${encodeURIComponent(credentials.clientSecret)}\`)}\`;
+  } else {
+    body.set("client_id", credentials.clientId);
+  }
+
+  const response = await (config.fetch ?? fetch)(url, { method: "POST", headers, body });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || typeof data.access_token !== "string") {
+    throw new globalThis.Error(\`Token request to \${url} failed with \${response.status}\${data.error ? \`: \${data.error}\` : ""}\`);
+  }
+  return data;
+}
+
+/**
+ * Settles like \`promise\`, or rejects when \`signal\` aborts first
+ */
+function withSignal<T>(promise: Promise<T>, signal?: globalThis.AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const abort = () => reject(signal!.reason);
+    signal?.addEventListener("abort", abort, { once: true });
+    promise.then(resolve, reject).then(() => signal?.removeEventListener("abort", abort));
+  });
+}
+
+/**
+ * An access token for the credentials and scopes, cached until shortly before
+ * it expires. Concurrent calls share one token request, which a call's
+ * \`signal\` stops waiting for but doesn't abort.
+ */
+function getOAuth2Token(
+  config: ClientConfig,
+  scheme: { tokenUrl?: string; refreshUrl?: string },
+  credentials: OAuth2ClientCredentials | OAuth2RefreshToken,
+  scopes: string[],
+  signal?: globalThis.AbortSignal,
+): Promise<string> {
+  if (!oauth2Tokens.has(credentials)) oauth2Tokens.set(credentials, new Map());
+  const cache = oauth2Tokens.get(credentials)!;
+  const scope = (scopes.length > 0 ? scopes : credentials.scopes ?? []).join(" ");
+  const cached = cache.get(scope);
+  if (cached && cached.expiresAt > Date.now()) return withSignal(cached.token, signal);
+
+  const params: Record<string, string> = "refreshToken" in credentials
+    ? { grant_type: "refresh_token", refresh_token: refreshTokens.get(credentials) ?? credentials.refreshToken }
+    : { grant_type: "client_credentials" };
+  if (scope) params.scope = scope;
+  const url = credentials.tokenUrl ?? ("refreshToken" in credentials ? scheme.refreshUrl : scheme.tokenUrl)!;
+
+  const entry: CachedToken = { expiresAt: Infinity, token: Promise.resolve("") };
+  entry.token = requestToken(config, url, credentials, params).then((data) => {
+    if (data.expires_in !== undefined) {
+      // Renewed 30 seconds early, so tokens don't expire on the way
+      entry.expiresAt = Date.now() + Math.max(0, data.expires_in - 30) * 1000;
+    }
+    if (data.refresh_token && "refreshToken" in credentials) {
+      refreshTokens.set(credentials, data.refresh_token);
+      credentials.onRefreshToken?.(data.refresh_token);
+    }
+    return data.access_token;
+  });
+  // Failed token requests aren't cached
+  entry.token.catch(() => {
+    if (cache.get(scope) === entry) cache.delete(scope);
+  });
+  cache.set(scope, entry);
+  return withSignal(entry.token, signal);
+}
+` : ''}
+/**
+ * Adds the credentials of the operation's security requirement, operations
+ * with \`security: []\`, or an empty requirement, are sent without any.${oauth2 ? `
+ * OAuth2 flows request a token with the scopes the operation declares.` : ''}
+ */
+async function applyAuth(config: ClientConfig, request: ApiRequest): Promise<ApiRequest> {
+  const requirement = getAuthRequirement(config.auth, request.operationId);
+  if (!requirement) return request;
+
+  let url = request.url;
+  const headers = { ...request.headers };
+  const credentials: Record<string, any> = { ...config.auth };
+  for (const ${oauth2 ? '[name, scopes] of Object.entries(requirement)' : 'name of Object.keys(requirement)'}) {
+    const scheme = SECURITY_SCHEMES[name];
+    const credential = credentials[name];
+    if (scheme.type === "apiKey") {
+      const value = await resolveCredential(credential);
+      if (scheme.in === "query") {
+        url += \`\${url.includes("?") ? "&" : "?"}\${encodeURIComponent(scheme.name!)}=\${encodeURIComponent(value)}\`;
+      } else if (scheme.in === "cookie") {
+        headers.Cookie = [headers.Cookie, \`\${scheme.name}=\${encodeURIComponent(value)}\`].filter(Boolean).join("; ");
+      } else {
+        headers[scheme.name!] = value;
+      }
+    } else if (scheme.type === "http" && scheme.scheme?.toLowerCase() === "basic") {
+      headers.Authorization = \`Basic \${encodeBasicCredentials(credential.username, credential.password)}\`;
+    } else {${oauth2 ? `
+      const token = credential.clientId !== undefined
+        ? await getOAuth2Token(config, scheme, credential, scopes, request.signal)
+        : await resolveCredential(credential.token);` : `
+      const token = await resolveCredential(credential.token);`}
+      const prefix = scheme.type === "http" && scheme.scheme?.toLowerCase() !== "bearer" ? scheme.scheme : "Bearer";
+      headers.Authorization = \`\${prefix} \${token}\`;
+    }
+  }
+  return { ...request, url, headers };
+}
+`;
+}
+
+function generateDirectMethod(
+  pathInfo: PathInfo,
+  apiData: OpenAPIData,
+  methodName: string = getMethodName(pathInfo.operation, ""),
+  urlPath: string = getUrlPath(pathInfo.path),
+): string {
   const securityRequirements = getSecurityRequirements(pathInfo.operation, apiData);
   
   // Determine parameters based on path and operation
@@ -677,58 +2222,39 @@ function generateDirectMethod(pathInfo: PathInfo, apiData: OpenAPIData): string
   code += `    ${methodName}: `;
   
   // For resource endpoints (with path params) with POST/PUT/DELETE, use curried function
-  if (hasPathParams && (pathInfo.method === "post" || pathInfo.method === "put" || pathInfo.method === "delete" || pathInfo.method === "patch")) {
-    const paramName = pathParams[0];
-    
-    // First function: takes the path parameter
-    code += `(${paramName}: string) => `;
+  if (hasPathParams && isCurriedMethod(pathInfo.method)) {
+    // First function: takes the path parameters
+    code += `(${getPathParamsSignature(pathParams, getParameters(pathInfo.operation, "path"))}) => `;
     
     if (hasRequestBody) {
       const requestType = getRequestType(pathInfo.operation);
       // Second function: takes the body
-      code += `async (body: ${requestType}): Promise<ApiResponse<${responseType}>> => {\n`;
+      code += `async (${[`body: ${requestType}`, ...getTrailingParamsSignature(pathInfo.operation)].join(", ")}): Promise<${getReturnType(pathInfo)}> => {\n`;
     } else {
-      // Second function: no parameters (for DELETE)
-      code += `async (): Promise<ApiResponse<${responseType}>> => {\n`;
+      // Second function: no parameters (for DELETE) other than headers and cookies
+      code += `async (${getTrailingParamsSignature(pathInfo.operation).join(", ")}): Promise<${getReturnType(pathInfo)}> => {\n`;
     }
     
-    // Build URL with path parameters
-    let urlTemplate = pathInfo.path;
-    pathParams.forEach(param => {
-      urlTemplate = urlTemplate.replace(`{${param}}`, `\${${param}}`);
-    });
-    
-    code += `      const response = await fetch(\`\${this.config.baseUrl}${urlTemplate}\`, {\n`;
+    code += `      const response = await ${getSendRequestCall(pathInfo)}resolveUrl(this.config.baseUrl, \`${urlPath}\`), {\n`;
     code += `        method: '${pathInfo.method.toUpperCase()}',\n`;
     
     if (hasRequestBody) {
+      const requestBody = getRequestBodyOptions(pathInfo);
       code += `        headers: {\n`;
-      code += `          'Content-Type': 'application/json',\n`;
-      code += `          ...this.config.headers,\n`;
+      requestBody.headers.forEach((header) => {
+        code += `          ${header},\n`;
+      });
       code += `        },\n`;
-      code += `        body: JSON.stringify(body),\n`;
+      code += `        body: ${requestBody.body},\n`;
     } else {
-      code += `        headers: this.config.headers,\n`;
+      code += `        headers: ${getRequestHeadersCode(pathInfo.operation)},\n`;
     }
     
     code += `      });\n`;
     code += `      \n`;
     
     // Handle response
-    if (pathInfo.method === "delete" && responseType.includes("void")) {
-      code += `      return {\n`;
-      code += `        data: undefined,\n`;
-      code += `        status: response.status,\n`;
-      code += `        statusText: response.statusText,\n`;
-      code += `      };\n`;
-    } else {
-      code += `      const data = await response.json();\n`;
-      code += `      return {\n`;
-      code += `        data,\n`;
-      code += `        status: response.status,\n`;
-      code += `        statusText: response.statusText,\n`;
-      code += `      };\n`;
-    }
+    code += getResponseCode(pathInfo, "      ");
     
     code += `    },\n`;
     
@@ -740,12 +2266,12 @@ function generateDirectMethod(pathInfo: PathInfo, apiData: OpenAPIData): string
   const params: string[] = [];
   
   // Add path parameters
-  pathParams.forEach(param => {
-    params.push(`${param}: string`);
-  });
+  if (hasPathParams) {
+    params.push(getPathParamsSignature(pathParams, getParameters(pathInfo.operation, "path")));
+  }
   
-  // Add query parameters for GET requests
-  if (pathInfo.method === "get") {
+  // Add query parameters for GET, HEAD, OPTIONS and TRACE requests
+  if (QUERY_METHODS.includes(pathInfo.method)) {
     const { type: queryParamsType, hasRequired: hasRequiredParams } = getQueryParamsType(pathInfo.operation);
     const defaultValue = hasRequiredParams ? "" : " = {}";
     params.push(`params: ${queryParamsType}${defaultValue}`);
@@ -756,27 +2282,19 @@ function generateDirectMethod(pathInfo: PathInfo, apiData: OpenAPIData): string
     const requestType = getRequestType(pathInfo.operation);
     params.push(`body: ${requestType}`);
   }
+
+  // Add header and cookie parameters, and the per-call options
+  params.push(...getTrailingParamsSignature(pathInfo.operation));
   
   const paramString = params.length > 0 ? `(${params.join(", ")})` : "()";
   
-  code += `async ${paramString}: Promise<ApiResponse<${responseType}>> => {\n`;
+  code += `async ${paramString}: Promise<${getReturnType(pathInfo)}> => {\n`;
   
-  // Build URL with path parameters
-  let urlTemplate = `\`\${this.config.baseUrl}${pathInfo.path}\``;
-  pathParams.forEach(param => {
-    urlTemplate = urlTemplate.replace(`{${param}}`, `\${${param}}`);
-  });
-  
-  code += `      const url = new URL(${urlTemplate});\n`;
-  
-  // Add query parameters handling for GET requests
-  if (pathInfo.method === "get") {
-    code += `      Object.entries(params).forEach(([key, value]) => {\n`;
-    code += `        if (value !== undefined) {\n`;
-    code += `          url.searchParams.append(key, String(value));\n`;
-    code += `        }\n`;
-    code += `      });\n`;
-  }
+  // Add query parameters handling for GET, HEAD, OPTIONS and TRACE requests
+  const query = QUERY_METHODS.includes(pathInfo.method)
+    ? `, serializeQuery(params${getQueryStylesCode(pathInfo.operation)})`
+    : "";
+  code += `      const url = resolveUrl(this.config.baseUrl, \`${urlPath}\`${query});\n`;
   
   code += `      \n`;
   
@@ -785,34 +2303,22 @@ function generateDirectMethod(pathInfo: PathInfo, apiData: OpenAPIData): string
   fetchOptions.push(`method: '${pathInfo.method.toUpperCase()}'`);
   
   if (hasRequestBody) {
-    fetchOptions.push(`headers: {\n        'Content-Type': 'application/json',\n        ...this.config.headers,\n      }`);
-    fetchOptions.push(`body: JSON.stringify(body)`);
+    const requestBody = getRequestBodyOptions(pathInfo);
+    fetchOptions.push(`headers: {\n${requestBody.headers.map((header) => `        ${header},\n`).join("")}      }`);
+    fetchOptions.push(`body: ${requestBody.body}`);
   } else {
-    fetchOptions.push(`headers: this.config.headers`);
+    fetchOptions.push(`headers: ${getRequestHeadersCode(pathInfo.operation)}`);
   }
   
   const fetchOptionsString = fetchOptions.join(",\n      ");
   
-  code += `      const response = await fetch(url.toString(), {\n`;
+  code += `      const response = await ${getSendRequestCall(pathInfo)}url, {\n`;
   code += `        ${fetchOptionsString}\n`;
   code += `      });\n`;
   code += `      \n`;
   
   // Handle response
-  if (pathInfo.method === "delete" && responseType.includes("void")) {
-    code += `      return {\n`;
-    code += `        data: undefined,\n`;
-    code += `        status: response.status,\n`;
-    code += `        statusText: response.statusText,\n`;
-    code += `      };\n`;
-  } else {
-    code += `      const data = await response.json();\n`;
-    code += `      return {\n`;
-    code += `        data,\n`;
-    code += `        status: response.status,\n`;
-    code += `        statusText: response.statusText,\n`;
-    code += `      };\n`;
-  }
+  code += getResponseCode(pathInfo, "      ");
   
   code += `    },\n`;
   
@@ -0,0 +1,222 @@
+import type { OpenAPIData } from "../types/interfaces.ts";
+import {
+  type ClientGeneratorOptions,
+  type ClientOperation,
+  generateRequestRuntime,
+  getClientOperations,
+  isJsonContentType,
+  type QueryStyle,
+  type ResponseKind,
+} from "./dynamic-client-generator.ts";
+import { resolveLocalRefs } from "./ref-resolver.ts";
+
+export interface DynamicClientConfig {
+  /** Defaults to the first server in the spec */
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  /** What binary responses resolve to (default: "blob") */
+  binaryResponseType?: ClientGeneratorOptions["binaryResponseType"];
+}
+
+/**
+ * `client.get.getpets(params)`, `client.put.updatepet(id)(body)`... with
+ * the members and call styles of the generated flat client, but untyped
+ */
+export type DynamicClient = Record<string, Record<string, DynamicMethod>>;
+
+/**
+ * An operation of the dynamic client, or a member of one
+ * (`client.get.pets.queryParams`). Calls resolve to a {@link DynamicResponse},
+ * curried ones return the next function first.
+ */
+export interface DynamicMethod {
+  (...args: unknown[]): unknown;
+  [member: string]: DynamicMethod;
+}
+
+export interface DynamicResponse {
+  data?: unknown;
+  /** Only for HEAD requests */
+  headers?: Record<string, string>;
+  ok: boolean;
+  status: number;
+  statusText: string;
+}
+
+/**
+ * Builds a client from a spec at runtime, for scripts and REPL sessions that
+ * don't want a generate step. Operations are looked up by the same names the
+ * generated flat client uses, resource names for those without an operationId.
+ * Local `$ref`s are resolved; resolve external ones with `resolveRefs` first.
+ *
+ * @example
+ * ```typescript
+ * const client = createDynamicClient(apiData, { headers: { Authorization: `Bearer ${token}` } });
+ * const { data } = await client.get.getpersonbyid("42") as DynamicResponse;
+ * ```
+ */
+export function createDynamicClient(apiData: OpenAPIData, config: DynamicClientConfig = {}): DynamicClient {
+  const baseUrl = config.baseUrl ?? apiData.servers?.[0]?.url ?? "";
+  const namespaces: Record<string, Map<string, ClientOperation>> = {};
+  const resolved = resolveLocalRefs(apiData);
+  for (const operation of getClientOperations(resolved, { binaryResponseType: config.binaryResponseType })) {
+    namespaces[operation.method] ??= new Map();
+    namespaces[operation.method].set(operation.name, operation);
+  }
+
+  const client: DynamicClient = {};
+  for (const [method, operations] of Object.entries(namespaces)) {
+    const getMethod = (name: string) => createOperationMethod(operations.get(name)!, baseUrl, config.headers ?? {});
+
+    // Other keys read like those of a plain object, so the namespace can be
+    // awaited, printed and passed to JSON.stringify
+    client[method] = new Proxy({}, {
+      get: (target, name) =>
+        typeof name === "string" && operations.has(name) ? getMethod(name) : Reflect.get(target, name),
+      has: (_target, name) => typeof name === "string" && operations.has(name),
+      ownKeys: () => [...operations.keys()],
+      getOwnPropertyDescriptor: (_target, name) =>
+        typeof name === "string" && operations.has(name)
+          ? { enumerable: true, configurable: true, value: getMethod(name) }
+          : undefined,
+    });
+  }
+
+  return client;
+}
+
+type OperationCall = (...args: unknown[]) => Promise<unknown>;
+
+/**
+ * Takes the arguments in the generated client's order: path parameters, query
+ * parameters, body, headers, cookies. Path parameters come first on their own
+ * for curried operations.
+ */
+function createOperationMethod(
+  operation: ClientOperation,
+  baseUrl: string,
+  headers: Record<string, string>,
+): DynamicMethod {
+  const send = (pathValues: unknown[], args: unknown[]) => {
+    const rest = [...args];
+    const params = operation.hasQueryParams ? rest.shift() ?? {} : {};
+    const body = operation.requestContentType ? rest.shift() : undefined;
+    const headerValues = operation.hasHeaderParams ? rest.shift() ?? {} : {};
+    const cookieValues = operation.hasCookieParams ? rest.shift() ?? {} : {};
+    return sendRequest(operation, baseUrl, headers, {
+      pathValues,
+      params: params as Record<string, unknown>,
+      body,
+      headerValues: headerValues as Record<string, unknown>,
+      cookieValues: cookieValues as Record<string, unknown>,
+    });
+  };
+  // `client.get.pet(id).get()` and `client.get.pets.queryParams(params)` call through a member
+  const withMember = (call: OperationCall) =>
+    (operation.member ? { [operation.member]: call } : call) as DynamicMethod;
+
+  if (operation.curried) {
+    const curried = (...pathValues: unknown[]) => withMember((...args) => send(pathValues, args));
+    return curried as DynamicMethod;
+  }
+  const pathParamCount = operation.pathParams.length;
+  return withMember((...args) => send(args.slice(0, pathParamCount), args.slice(pathParamCount)));
+}
+
+interface RequestRuntime {
+  serializeQuery(params: Record<string, unknown>, styles?: Record<string, QueryStyle>): string;
+  resolveUrl(baseUrl: string, path: string, query?: string): string;
+  parseResponse(response: Response, as: ResponseKind): Promise<unknown>;
+}
+
+let requestRuntime: Promise<RequestRuntime> | undefined;
+
+/**
+ * Imports the request helpers of the generated clients, so URLs, query
+ * strings and responses are handled exactly like there
+ */
+function loadRequestRuntime(): Promise<RequestRuntime> {
+  const source = `${generateRequestRuntime()}\nexport { parseResponse, resolveUrl, serializeQuery };\n`;
+  requestRuntime ??= import(`data:application/typescript,${encodeURIComponent(source)}`);
+  return requestRuntime;
+}
+
+async function sendRequest(
+  operation: ClientOperation,
+  baseUrl: string,
+  headers: Record<string, string>,
+  request: {
+    pathValues: unknown[];
+    params: Record<string, unknown>;
+    body: unknown;
+    headerValues: Record<string, unknown>;
+    cookieValues: Record<string, unknown>;
+  },
+): Promise<DynamicResponse> {
+  const { parseResponse, resolveUrl, serializeQuery } = await loadRequestRuntime();
+
+  let path = operation.path;
+  operation.pathParams.forEach((name, index) => {
+    path = path.replace(`{${name}}`, encodeURIComponent(String(request.pathValues[index])));
+  });
+  const url = resolveUrl(baseUrl, path, serializeQuery(request.params, operation.queryStyles));
+
+  const requestHeaders: Record<string, string> = { ...headers };
+  for (const [name, value] of Object.entries(request.headerValues)) {
+    if (value !== undefined) requestHeaders[name] = String(value);
+  }
+  const cookies = Object.entries(request.cookieValues)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${encodeURIComponent(String(value))}`);
+  if (cookies.length > 0) requestHeaders.Cookie = cookies.join("; ");
+
+  let body: BodyInit | undefined;
+  const contentType = operation.requestContentType;
+  if (contentType === "multipart/form-data") {
+    // fetch sets the Content-Type header, including the multipart boundary
+    body = new FormData();
+    for (const [name, value] of getBodyEntries(request.body)) {
+      body.append(name, value instanceof Blob ? value : toFieldValue(value));
+    }
+  } else if (contentType === "application/x-www-form-urlencoded") {
+    body = new URLSearchParams(getBodyEntries(request.body).map(([name, value]) => [name, toFieldValue(value)]));
+    requestHeaders["Content-Type"] = contentType;
+  } else if (contentType && isJsonContentType(contentType)) {
+    body = JSON.stringify(request.body);
+    requestHeaders["Content-Type"] = contentType;
+  } else if (contentType) {
+    body = request.body as BodyInit;
+    if (!contentType.includes("*")) requestHeaders["Content-Type"] = contentType;
+  }
+
+  const response = await fetch(url, {
+    method: operation.method.toUpperCase(),
+    headers: requestHeaders,
+    body,
+  });
+
+  if (operation.method === "head") {
+    return {
+      headers: Object.fromEntries(response.headers),
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+    };
+  }
+  return {
+    data: await parseResponse(response, response.ok ? operation.responseKind : "json"),
+    ok: response.ok,
+    status: response.status,
+    statusText: response.statusText,
+  };
+}
+
+function getBodyEntries(body: unknown): [string, unknown][] {
+  return Object.entries((body ?? {}) as Record<string, unknown>)
+    .filter(([, value]) => value !== undefined)
+    .flatMap(([name, value]) => (Array.isArray(value) ? value : [value]).map((item): [string, unknown] => [name, item]));
+}
+
+function toFieldValue(value: unknown): string {
+  return value !== null && typeof value === "object" ? JSON.stringify(value) : String(value);
+}
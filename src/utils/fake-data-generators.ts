@@ -0,0 +1,195 @@
+import type { OpenAPIData } from "../types/interfaces.ts";
+import { getDefTypeName } from "./type-generators.ts";
+import { escapePointerSegment } from "./ref-resolver.ts";
+
+/**
+ * Generates a `fake<Name>(seed?)` factory for every schema in
+ * `components.schemas`, returning data that matches the schema: enums,
+ * formats, min/max bounds, required properties, arrays and `$ref`
+ * composition are respected. The same seed always gives the same value.
+ */
+export const createFakesFromApiData = (apiData: OpenAPIData): string => {
+  let fakesContent = `// Fake data factories
+${generateFakeDataRuntime()}`;
+
+  for (const [typeName, schema] of Object.entries(apiData.components?.schemas ?? {})) {
+    const pointer = `#/components/schemas/${escapePointerSegment(typeName)}`;
+    fakesContent += generateFake(typeName, pointer);
+
+    for (const defName of Object.keys(schema.$defs ?? {})) {
+      fakesContent += generateFake(
+        getDefTypeName(typeName, defName),
+        `${pointer}/$defs/${escapePointerSegment(defName)}`,
+      );
+    }
+  }
+
+  return fakesContent;
+};
+
+/**
+ * `__fakeSchema` and its seeded random source, resolving refs with the
+ * `generateSchemaTable` table
+ */
+export const generateFakeDataRuntime = (): string => {
+  return `
+const FAKE_WORDS = ["alpha", "bravo", "charlie", "delta", "echo", "foxtrot", "golf", "hotel", "india", "juliet"];
+
+/**
+ * Mulberry32, a small seedable random source between 0 and 1
+ */
+const createRandom = (seed: number): () => number => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const randomInteger = (random: () => number, min: number, max: number): number => {
+  return min + Math.floor(random() * (max - min + 1));
+};
+
+const pick = <T>(random: () => number, options: T[]): T => {
+  return options[Math.floor(random() * options.length)];
+};
+
+/**
+ * Bounds of a number schema, "exclusiveMinimum" is a boolean in OpenAPI 3.0
+ * and a number in 3.1
+ */
+const getBounds = (schema: any, integer: boolean): [number, number] => {
+  const step = integer ? 1 : 0.01;
+  let min = schema.minimum ?? (typeof schema.exclusiveMinimum === "number" ? schema.exclusiveMinimum + step : undefined);
+  let max = schema.maximum ?? (typeof schema.exclusiveMaximum === "number" ? schema.exclusiveMaximum - step : undefined);
+  if (schema.exclusiveMinimum === true && min !== undefined) min += step;
+  if (schema.exclusiveMaximum === true && max !== undefined) max -= step;
+  min ??= max !== undefined ? Math.min(0, max) - 1000 : 0;
+  max ??= min + 1000;
+  return integer ? [Math.ceil(min), Math.floor(max)] : [min, max];
+};
+
+const __fakeNumber = (schema: any, random: () => number, integer: boolean): number => {
+  const [min, max] = getBounds(schema, integer);
+  if (schema.multipleOf) {
+    const multiple = schema.multipleOf;
+    return randomInteger(random, Math.ceil(min / multiple), Math.floor(max / multiple)) * multiple;
+  }
+  return integer ? randomInteger(random, min, max) : Math.round((min + random() * (max - min)) * 100) / 100;
+};
+
+const __fakeString = (schema: any, random: () => number): string | Blob => {
+  const word = pick(random, FAKE_WORDS);
+  switch (schema.format) {
+    case "date-time":
+    case "date": {
+      // Between 2000-01-01 and 2030-01-01
+      const date = new Date(Date.UTC(2000, 0, 1) + Math.floor(random() * 946_771_200) * 1000).toISOString();
+      return schema.format === "date" ? date.slice(0, 10) : date.replace(".000", "");
+    }
+    case "uuid": {
+      const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16));
+      hex[12] = "4";
+      hex[16] = "89ab"[Math.floor(random() * 4)];
+      const uuid = hex.join("");
+      return \`\${uuid.slice(0, 8)}-\${uuid.slice(8, 12)}-\${uuid.slice(12, 16)}-\${uuid.slice(16, 20)}-\${uuid.slice(20)}\`;
+    }
+    case "email":
+      return \`\${word}\${randomInteger(random, 1, 999)}@example.com\`;
+    case "uri":
+    case "url":
+      return \`https://example.com/\${word}\`;
+    case "binary":
+      return new Blob([word]);
+  }
+
+  let value = word;
+  const minLength = schema.minLength ?? 0;
+  while (value.length < minLength) value += \` \${pick(random, FAKE_WORDS)}\`;
+  return schema.maxLength !== undefined ? value.slice(0, Math.max(schema.maxLength, minLength)) : value;
+};
+
+const isNullSchema = (schema: any): boolean =>
+  schema?.nullable === true || schema?.const === null || schema?.type === "null" ||
+  (Array.isArray(schema?.type) && schema.type.includes("null")) ||
+  (Array.isArray(schema?.enum) && schema.enum.includes(null));
+
+/** Whether null is a valid value, directly or through a oneOf/anyOf branch */
+const allowsNull = (schema: any): boolean =>
+  isNullSchema(schema) ||
+  (schema.oneOf ?? schema.anyOf ?? []).some((branch: any) =>
+    isNullSchema(branch?.$ref ? resolveSchemaRef(branch.$ref) : branch)
+  );
+
+const __fakeValue = (schema: any, random: () => number, depth: number): unknown => {
+  if (schema === undefined || schema === null || typeof schema !== "object") return null;
+  if (schema.$ref) return __fakeValue(resolveSchemaRef(schema.$ref), random, depth);
+  // Nullable recursive schemas end in null, even where it's required
+  if (depth > 3 && allowsNull(schema)) return null;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return pick(random, schema.enum);
+  if (schema.allOf) {
+    const parts = schema.allOf.map((subschema: any) => __fakeValue(subschema, random, depth));
+    return parts.every((part: unknown) => part !== null && typeof part === "object" && !Array.isArray(part))
+      ? Object.assign({}, ...parts)
+      : parts[parts.length - 1];
+  }
+  if (schema.oneOf ?? schema.anyOf) return __fakeValue(pick(random, schema.oneOf ?? schema.anyOf), random, depth);
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const type = types.find((t) => t !== "null") ?? types[0] ??
+    (schema.properties ? "object" : schema.items || schema.prefixItems ? "array" : undefined);
+  switch (type) {
+    case "string":
+      return __fakeString(schema, random);
+    case "integer":
+      return __fakeNumber(schema, random, true);
+    case "number":
+      return __fakeNumber(schema, random, false);
+    case "boolean":
+      return random() < 0.5;
+    case "array": {
+      const tupleItems = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined);
+      if (tupleItems) return tupleItems.map((item: any) => __fakeValue(item, random, depth + 1));
+      // Recursive schemas end in the smallest allowed array
+      const minItems = schema.minItems ?? 0;
+      const length = depth > 3 ? minItems : randomInteger(random, Math.max(minItems, 1), Math.max(minItems, Math.min(schema.maxItems ?? 3, 3)));
+      return Array.from({ length }, () => __fakeValue(schema.items, random, depth + 1));
+    }
+    case "object": {
+      const result: Record<string, unknown> = {};
+      for (const [name, property] of Object.entries<any>(schema.properties ?? {})) {
+        // Optional properties are left out at random, and always below a few levels
+        if (schema.required?.includes(name) || (depth < 3 && random() < 0.5)) {
+          result[name] = __fakeValue(property, random, depth + 1);
+        }
+      }
+      return result;
+    }
+  }
+  return null;
+};
+
+/**
+ * Fake data matching \`schema\`, refs point into components.schemas. The same
+ * seed always gives the same value.
+ */
+export function __fakeSchema(schema: any, seed = 1): unknown {
+  return __fakeValue(schema, createRandom(seed), 0);
+}
+`;
+};
+
+const generateFake = (typeName: string, pointer: string): string => {
+  return `
+/**
+ * A fake ${typeName}, the same \`seed\` always gives the same value
+ */
+export const fake${typeName} = (seed = 1): ${typeName} => {
+  return __fakeSchema({ $ref: ${JSON.stringify(pointer)} }, seed) as ${typeName};
+};
+`;
+};
@@ -1,8 +1,19 @@
 import { exists } from "jsr:@std/fs@1.0.19/exists";
 import { parse } from "jsr:@std/yaml@1.0.9";
 import { createTypesFromApiData } from "./type-generators.ts";
-import { generateClientFromOpenAPI } from "./dynamic-client-generator.ts";
-import type { OpenAPIData } from "../types/interfaces.ts";
+import { buildClient, type ClientGeneratorOptions, type MethodNameRename } from "./dynamic-client-generator.ts";
+import { generateMockServer } from "./mock-server-generator.ts";
+import { generateMockClient } from "./mock-client-generator.ts";
+import { escapePointerSegment, resolveRefs } from "./ref-resolver.ts";
+import { convertSwaggerToOpenAPI, isSwagger2 } from "./swagger-converter.ts";
+import {
+  type Diagnostic,
+  formatDiagnostic,
+  locatePointer,
+  SpecValidationError,
+  validateSpec,
+} from "./spec-validator.ts";
+import type { OpenAPIData, SwaggerData } from "../types/interfaces.ts";
 
 export interface GenerateOptions {
   /** Output directory for generated files (default: "src/out") */
@@ -15,6 +26,26 @@ export interface GenerateOptions {
   typesFilename?: string;
   /** Custom filename for client file (default: "client.ts") */
   clientFilename?: string;
+  /** Abort generation when validation reports errors (default: false) */
+  strict?: boolean;
+  /** Client layout, "flat" (`client.get.todos()`) or "nested" (`client.todos(id).get()`) (default: "flat") */
+  clientStructure?: ClientGeneratorOptions["structure"];
+  /** What binary responses resolve to, "blob", "arrayBuffer" or "stream" (default: "blob") */
+  binaryResponseType?: ClientGeneratorOptions["binaryResponseType"];
+  /** "union" resolves every response typed by status, "throw" rejects non-2xx responses with an `ApiError` (default: "union") */
+  errorMode?: ClientGeneratorOptions["errorMode"];
+  /** Emit runtime validators with the types and let the client check bodies with them (default: false) */
+  validators?: boolean;
+  /** Emit seeded `fake<Type>(seed?)` data factories with the types (default: false) */
+  fakes?: boolean;
+  /** Whether to generate a runnable mock server (default: false) */
+  generateMockServer?: boolean;
+  /** Custom filename for mock server file (default: "mock-server.ts") */
+  mockServerFilename?: string;
+  /** Whether to generate `createMockClient()`, an in-memory client for tests (default: false) */
+  generateMockClient?: boolean;
+  /** Custom filename for mock client file (default: "mock-client.ts") */
+  mockClientFilename?: string;
 }
 
 export interface GenerateResult {
@@ -26,6 +57,16 @@ export interface GenerateResult {
   typesContent?: string;
   /** Content of the generated client */
   clientContent?: string;
+  /** Path to the generated mock server file (if generated) */
+  mockServerPath?: string;
+  /** Content of the generated mock server */
+  mockServerContent?: string;
+  /** Path to the generated mock client file (if generated) */
+  mockClientPath?: string;
+  /** Content of the generated mock client */
+  mockClientContent?: string;
+  /** Errors and warnings found while validating the specification, and renamed client methods */
+  diagnostics: Diagnostic[];
 }
 
 /**
@@ -33,7 +74,8 @@ export interface GenerateResult {
  * 
  * @param specPath - Path to the OpenAPI specification file (JSON or YAML)
  * @param options - Configuration options for generation
- * @returns Promise<GenerateResult> - Information about generated files
+ * @returns Promise<GenerateResult> - Information about generated files and validation diagnostics
+ * @throws SpecValidationError in strict mode when the specification has errors
  * 
  * @example
  * ```typescript
@@ -57,7 +99,17 @@ export async function generateFromOpenAPI(
     generateTypes = true,
     generateClient = true,
     typesFilename = "types.ts",
-    clientFilename = "client.ts"
+    clientFilename = "client.ts",
+    strict = false,
+    clientStructure = "flat",
+    binaryResponseType = "blob",
+    errorMode = "union",
+    validators = false,
+    fakes = false,
+    generateMockServer: generateMock = false,
+    mockServerFilename = "mock-server.ts",
+    generateMockClient: generateMockClientFile = false,
+    mockClientFilename = "mock-client.ts"
   } = options;
 
   // Validate input file exists
@@ -67,11 +119,31 @@ export async function generateFromOpenAPI(
 
   // Read and parse the OpenAPI specification
   const data = await Deno.readTextFile(specPath);
-  const apiData: OpenAPIData = specPath.endsWith('.json') 
+  const parsedData: OpenAPIData | SwaggerData = specPath.endsWith('.json') 
     ? JSON.parse(data) 
     : parse(data) as OpenAPIData;
 
-  const result: GenerateResult = {};
+  // Upgrade Swagger 2.0 documents to OpenAPI 3 before anything else
+  const openApiData = isSwagger2(parsedData)
+    ? convertSwaggerToOpenAPI(parsedData)
+    : parsedData as OpenAPIData;
+
+  // Validate before resolving so diagnostics point into the original document.
+  // Line numbers are only available for YAML that wasn't converted from Swagger 2.0.
+  const isYaml = !specPath.endsWith('.json');
+  const yamlSource = isYaml && openApiData === parsedData ? data : undefined;
+  const diagnostics = validateSpec(openApiData, yamlSource);
+
+  logDiagnostics(diagnostics);
+
+  if (strict && diagnostics.some((d) => d.severity === "error")) {
+    throw new SpecValidationError(diagnostics);
+  }
+
+  // Resolve $refs to parameters, responses, request bodies and external files
+  const apiData = await resolveRefs(openApiData, specPath);
+
+  const result: GenerateResult = { diagnostics };
 
   // Ensure output directory exists
   try {
@@ -84,7 +156,7 @@ export async function generateFromOpenAPI(
 
   // Generate types if requested
   if (generateTypes) {
-    const typesContent = createTypesFromApiData(apiData);
+    const typesContent = createTypesFromApiData(apiData, { validators, fakes });
     if(typesContent !== "") {
       const typesPath = `${outputDir}/${typesFilename}`;
     
@@ -99,7 +171,23 @@ export async function generateFromOpenAPI(
 
   // Generate client if requested
   if (generateClient) {
-    const clientContent = generateClientFromOpenAPI(apiData);
+    const clientOptions: ClientGeneratorOptions = {
+      structure: clientStructure,
+      binaryResponseType,
+      errorMode,
+      validators,
+    };
+
+    const { code: clientContent, renames } = buildClient(apiData, clientOptions);
+
+    // Operations whose method names collide are renamed, report every one of them
+    const renameDiagnostics = renames.map((rename) => getRenameDiagnostic(rename, yamlSource));
+    if (renameDiagnostics.length > 0) {
+      console.log(`⚠️ Renamed ${renameDiagnostics.length} client member(s) to avoid name collisions:`);
+      logDiagnostics(renameDiagnostics);
+      diagnostics.push(...renameDiagnostics);
+    }
+
     const clientPath = `${outputDir}/${clientFilename}`;
     
     await Deno.writeTextFile(clientPath, clientContent);
@@ -109,9 +197,55 @@ export async function generateFromOpenAPI(
     console.log(`✅ API client generated: ${clientPath}`);
   }
 
+  // Generate mock server if requested
+  if (generateMock) {
+    const mockServerContent = generateMockServer(apiData);
+    const mockServerPath = `${outputDir}/${mockServerFilename}`;
+
+    await Deno.writeTextFile(mockServerPath, mockServerContent);
+    result.mockServerPath = mockServerPath;
+    result.mockServerContent = mockServerContent;
+
+    console.log(`✅ Mock server generated: ${mockServerPath}`);
+  }
+
+  // Generate mock client if requested
+  if (generateMockClientFile) {
+    const mockClientContent = generateMockClient({ clientModule: `./${clientFilename}` });
+    const mockClientPath = `${outputDir}/${mockClientFilename}`;
+
+    await Deno.writeTextFile(mockClientPath, mockClientContent);
+    result.mockClientPath = mockClientPath;
+    result.mockClientContent = mockClientContent;
+
+    console.log(`✅ Mock client generated: ${mockClientPath}`);
+  }
+
   return result;
 }
 
+function logDiagnostics(diagnostics: Diagnostic[]): void {
+  for (const diagnostic of diagnostics) {
+    const icon = diagnostic.severity === "error" ? "❌" : "⚠️";
+    console.log(`${icon} ${formatDiagnostic(diagnostic)}`);
+  }
+}
+
+function getRenameDiagnostic(rename: MethodNameRename, yamlSource?: string): Diagnostic {
+  const pointer = rename.method
+    ? `#/paths/${escapePointerSegment(rename.path)}/${rename.method}`
+    : "#/paths";
+  const member = rename.method
+    ? `${rename.method.toUpperCase()} ${rename.path}${rename.operationId ? ` (operationId "${rename.operationId}")` : ""}`
+    : `Resource "${rename.path}"`;
+  const diagnostic: Diagnostic = {
+    severity: "warning",
+    pointer,
+    message: `${member}: "${rename.originalName}" is already used in ${rename.scope}, renamed to "${rename.name}"`,
+  };
+  return yamlSource ? { ...diagnostic, ...locatePointer(yamlSource, pointer) } : diagnostic;
+}
+
 /**
  * Generates only TypeScript types from an OpenAPI specification file
  * 
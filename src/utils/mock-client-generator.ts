@@ -0,0 +1,170 @@
+export interface MockClientOptions {
+  /** Import path of the generated client, relative to the mock client (default: "./client.ts") */
+  clientModule?: string;
+}
+
+/**
+ * Generates a module exporting `createMockClient()`, an in-memory stand-in for
+ * the generated client with the same shape. Every operation gets typed
+ * `resolves`, `rejects` and `handle` setters and records its calls; calling an
+ * operation without a mock rejects with an error naming it.
+ *
+ * The mock is built by walking a real client: its async functions are the
+ * operations, the other functions take path parameters. That keeps it in step
+ * with both the flat and the nested client structures.
+ */
+export const generateMockClient = (options: MockClientOptions = {}): string => {
+  const { clientModule = "./client.ts" } = options;
+
+  return `// Auto-generated mock client for tests
+// Generated on: ${new Date().toISOString()}
+
+import { createClient } from ${JSON.stringify(clientModule)};
+
+type ApiClient = ReturnType<typeof createClient>;
+
+/**
+ * What a mocked operation resolves to. \`ok\` and \`statusText\` are filled in
+ * from \`status\`, which defaults to 200 unless the operation has typed statuses
+ */
+export type MockResponse<R> = R extends { status: infer S; ok: boolean; statusText: string }
+  ? number extends S
+    ? Omit<R, "status" | "ok" | "statusText"> & { status?: number; ok?: boolean; statusText?: string }
+    : Omit<R, "ok" | "statusText"> & Partial<Pick<R, "ok" | "statusText">>
+  : R;
+
+export interface OperationMock<Args extends unknown[], R> {
+  /** Answers every call with this response */
+  resolves(response: MockResponse<R>): void;
+  /** Rejects every call with this error */
+  rejects(error: unknown): void;
+  /** Answers every call with the handler's response, it gets the call's arguments */
+  handle(handler: (...args: Args) => MockResponse<R> | Promise<MockResponse<R>>): void;
+  /** The arguments of every call so far, path parameters first */
+  readonly calls: Args[];
+  /** Forgets the calls and the response */
+  reset(): void;
+}
+
+/**
+ * The mock setters and children of a client member, path parameters of
+ * curried members are collected into the operation's arguments
+ */
+type MockMembers<T, Args extends unknown[]> = T extends (...args: infer A) => Promise<infer R>
+  ? OperationMock<[...Args, ...A], R>
+  : T extends (...args: infer A) => infer Next ? MockMembers<Next, [...Args, ...A]> & { [K in keyof T]: MockOf<T[K], Args> }
+  : { [K in keyof T]: MockOf<T[K], Args> };
+
+type MockOf<T, Args extends unknown[] = []> = T & MockMembers<T, Args>;
+
+/**
+ * The client with mock setters on every operation:
+ * \`mock.get.getpersonbyid.resolves({ data: person })\`
+ */
+export type MockClient = MockOf<ApiClient>;
+
+interface OperationState {
+  name: string;
+  calls: unknown[][];
+  handler?: (...args: any[]) => any;
+}
+
+const AsyncFunction = (async () => {}).constructor;
+
+/** Function properties that aren't client members */
+const FUNCTION_PROPERTIES = ["length", "name", "prototype"];
+
+function toResponse(response: any): any {
+  if (response === null || typeof response !== "object" || !("data" in response || "headers" in response)) {
+    return response;
+  }
+  const status = response.status ?? 200;
+  return { ok: status >= 200 && status < 300, statusText: "", ...response, status };
+}
+
+function getOperationApi(state: OperationState): PropertyDescriptorMap {
+  return Object.getOwnPropertyDescriptors({
+    resolves(response: unknown) {
+      state.handler = () => response;
+    },
+    rejects(error: unknown) {
+      state.handler = () => Promise.reject(error);
+    },
+    handle(handler: (...args: any[]) => any) {
+      state.handler = handler;
+    },
+    get calls() {
+      return state.calls;
+    },
+    reset() {
+      state.calls.length = 0;
+      state.handler = undefined;
+    },
+  });
+}
+
+function copyMembers(target: any, source: any): void {
+  for (const [key, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(source))) {
+    if (!FUNCTION_PROPERTIES.includes(key)) Object.defineProperty(target, key, descriptor);
+  }
+}
+
+/**
+ * Mirrors a member of the real client. \`name\` is its path without the calls,
+ * so \`client.put.updatepet(id)(body)\` and \`mock.put.updatepet\` share a state.
+ */
+function mockMember(real: any, name: string, args: unknown[], states: Map<string, OperationState>): any {
+  if (real instanceof AsyncFunction) {
+    if (!states.has(name)) states.set(name, { name, calls: [] });
+    const state = states.get(name)!;
+
+    const operation = async (...callArgs: unknown[]) => {
+      const allArgs = [...args, ...callArgs];
+      state.calls.push(allArgs);
+      if (!state.handler) {
+        throw new Error(
+          \`No mock for client.\${name}, set one with mock.\${name}.resolves(...), .rejects(...) or .handle(...)\`,
+        );
+      }
+      return toResponse(await state.handler(...allArgs));
+    };
+    return Object.defineProperties(operation, getOperationApi(state));
+  }
+
+  if (typeof real === "function") {
+    const node = (...callArgs: unknown[]) => mockMember(real(...callArgs), name, [...args, ...callArgs], states);
+    // Path parameter functions only build closures, calling one without
+    // arguments reveals the members behind it
+    copyMembers(node, mockMember(real(), name, args, states));
+    for (const [key, value] of Object.entries(real)) {
+      Object.defineProperty(node, key, { value: mockMember(value, \`\${name}.\${key}\`, args, states), enumerable: true });
+    }
+    return node;
+  }
+
+  const members: Record<string, any> = {};
+  for (const [key, value] of Object.entries(real ?? {})) {
+    if (name === "" && key === "config") continue;
+    members[key] = mockMember(value, name ? \`\${name}.\${key}\` : key, args, states);
+  }
+  return members;
+}
+
+/**
+ * Creates a client for tests that answers from registered mocks instead of
+ * the network, and records every call
+ *
+ * @example
+ * \`\`\`typescript
+ * const mock = createMockClient();
+ * mock.get.getpersonbyid.resolves({ data: { id: "42", name: "Ada" } });
+ *
+ * await showPerson(mock, "42");
+ * assertEquals(mock.get.getpersonbyid.calls, [["42"]]);
+ * \`\`\`
+ */
+export function createMockClient(): MockClient {
+  return mockMember(createClient({} as any), "", [], new Map());
+}
+`;
+};
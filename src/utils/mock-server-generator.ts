@@ -0,0 +1,272 @@
+import type { OpenAPIData, OpenAPIOperation } from "../types/interfaces.ts";
+import { mergeParameters, PATH_ITEM_METHODS } from "./dynamic-client-generator.ts";
+import { generateSchemaTable, generateValidationRuntime } from "./validator-generators.ts";
+import { generateFakeDataRuntime } from "./fake-data-generators.ts";
+
+export interface MockServerOptions {
+  /** Port the server listens on when the module is run directly (default: 8000) */
+  port?: number;
+}
+
+/**
+ * Generates a module that mocks the API: `handler` routes every operation in
+ * `apiData.paths`, rejects parameters and JSON bodies that don't match their
+ * schemas with a 400, and answers with the documented examples or data
+ * synthesised from the response schema. Run it with
+ * `deno run --allow-net mock-server.ts`, or pass `handler` to `Deno.serve`.
+ *
+ * A `Prefer: code=404` request header picks another documented response.
+ */
+export const generateMockServer = (apiData: OpenAPIData, options: MockServerOptions = {}): string => {
+  const { port = 8000 } = options;
+
+  const operations: string[] = [];
+  for (const [path, pathObj] of Object.entries(apiData.paths as Record<string, Record<string, unknown>>)) {
+    for (const [method, value] of Object.entries(pathObj)) {
+      if (!PATH_ITEM_METHODS.includes(method) || typeof value !== "object" || value === null) continue;
+
+      const operation = value as OpenAPIOperation;
+      const parameters = mergeParameters(pathObj.parameters, operation.parameters) ?? [];
+      const mock = {
+        method: method.toUpperCase(),
+        path,
+        parameters,
+        requestBody: operation.requestBody,
+        responses: operation.responses ?? {},
+      };
+      operations.push(`  ${JSON.stringify(mock)},`);
+    }
+  }
+
+  // The base path of the first server, "/v1" for "https://api.example.com/v1"
+  const serverUrl = apiData.servers?.[0]?.url ?? "";
+  const basePath = new URL(serverUrl, "http://localhost").pathname.replace(/\/$/, "");
+
+  return `// Auto-generated mock server from OpenAPI specification
+// Generated on: ${new Date().toISOString()}
+${generateSchemaTable(apiData)}${generateValidationRuntime()}${generateFakeDataRuntime()}
+interface MockOperation {
+  method: string;
+  path: string;
+  parameters: any[];
+  requestBody?: any;
+  responses: Record<string, any>;
+}
+
+const operations: MockOperation[] = [
+${operations.join("\n")}
+];
+
+const BASE_PATH: string = ${JSON.stringify(basePath)};
+
+const CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS",
+  "Access-Control-Allow-Headers": "*",
+};
+
+// Literal paths win over templated ones: /users/me before /users/{id}
+const routes = operations
+  .map((operation) => ({
+    operation,
+    pattern: new RegExp(
+      "^" + operation.path.replace(/[.*+?^$()|[\\]\\\\]/g, "\\\\$&").replace(/\\{[^}]+\\}/g, "([^/]+)") + "$",
+    ),
+    names: [...operation.path.matchAll(/\\{([^}]+)\\}/g)].map((match) => match[1]),
+  }))
+  .sort((a, b) => a.names.length - b.names.length);
+
+const isJsonContentType = (contentType: string): boolean => {
+  return contentType === "application/json" || contentType.endsWith("+json");
+};
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, "Content-Type": "application/json", ...headers },
+  });
+};
+
+/**
+ * The same request always gets the same fake data: FNV-1a of the method and URL
+ */
+const getSeed = (request: Request): number => {
+  let hash = 0x811c9dc5;
+  for (const char of \`\${request.method} \${request.url}\`) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Converts a path, query or header value to the type its schema expects
+ */
+const coerceParameter = (schema: any, value: string | string[]): unknown => {
+  const resolved = schema?.$ref ? resolveSchemaRef(schema.$ref) : schema ?? {};
+  const types: string[] = Array.isArray(resolved.type) ? resolved.type : [resolved.type];
+  if (types.includes("array")) {
+    const values = Array.isArray(value) ? value : value.split(",");
+    return values.map((item) => coerceParameter(resolved.items, item));
+  }
+
+  const single = Array.isArray(value) ? value[0] : value;
+  if ((types.includes("integer") || types.includes("number")) && single.trim() !== "" && !isNaN(Number(single))) {
+    return Number(single);
+  }
+  if (types.includes("boolean") && (single === "true" || single === "false")) {
+    return single === "true";
+  }
+  return single;
+};
+
+const getCookies = (request: Request): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const cookie of (request.headers.get("Cookie") ?? "").split(";")) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name) {
+      // Cookie values aren't always percent-encoded, "discount=100%" is kept as sent
+      try {
+        cookies[name] = decodeURIComponent(value.join("="));
+      } catch {
+        cookies[name] = value.join("=");
+      }
+    }
+  }
+  return cookies;
+};
+
+const validateRequest = async (
+  request: Request,
+  url: URL,
+  operation: MockOperation,
+  pathValues: Record<string, string>,
+): Promise<__SchemaViolation[]> => {
+  const violations: __SchemaViolation[] = [];
+  const cookies = getCookies(request);
+
+  for (const parameter of operation.parameters) {
+    let value: string | string[] | undefined;
+    if (parameter.in === "path") {
+      value = pathValues[parameter.name];
+    } else if (parameter.in === "query") {
+      const values = url.searchParams.getAll(parameter.name);
+      value = values.length > 1 ? values : values[0];
+    } else if (parameter.in === "header") {
+      value = request.headers.get(parameter.name) ?? undefined;
+    } else if (parameter.in === "cookie") {
+      value = cookies[parameter.name];
+    }
+
+    const path = \`\${parameter.in}.\${parameter.name}\`;
+    if (value === undefined) {
+      if (parameter.required) violations.push({ path, message: "is required" });
+      continue;
+    }
+    // deepObject and exploded object parameters aren't checked
+    if (parameter.schema?.type === "object") continue;
+    violations.push(...__validateSchema(parameter.schema, coerceParameter(parameter.schema, value), path));
+  }
+
+  const requestBody = operation.requestBody;
+  if (!requestBody) return violations;
+
+  const text = await request.text();
+  if (text === "") {
+    if (requestBody.required) violations.push({ path: "body", message: "is required" });
+    return violations;
+  }
+
+  const contentType = request.headers.get("Content-Type")?.split(";")[0].trim() ?? "";
+  const schema = requestBody.content?.[contentType]?.schema;
+  if (schema && isJsonContentType(contentType)) {
+    try {
+      violations.push(...__validateSchema(schema, JSON.parse(text), "body"));
+    } catch {
+      violations.push({ path: "body", message: "is not valid JSON" });
+    }
+  }
+  return violations;
+};
+
+const mockResponse = (request: Request, operation: MockOperation): Response => {
+  const responses = operation.responses;
+  const requested = request.headers.get("Prefer")?.match(/code=(\\d{3})/)?.[1];
+  const status = requested && responses[requested]
+    ? requested
+    : Object.keys(responses).filter((code) => /^2\\d\\d$/.test(code)).sort()[0];
+  const response = status ? responses[status] : responses["2XX"] ?? responses.default;
+  const code = Number(status ?? 200);
+
+  const headers: Record<string, string> = { ...CORS_HEADERS };
+  for (const [name, header] of Object.entries<any>(response?.headers ?? {})) {
+    headers[name] = String(__fakeSchema(header?.schema, getSeed(request)) ?? "");
+  }
+
+  const content = response?.content ?? {};
+  const contentType = Object.keys(content).find(isJsonContentType) ?? Object.keys(content)[0];
+  if (!contentType || request.method === "HEAD" || code === 204 || code === 205 || code === 304) {
+    return new Response(null, { status: code, headers });
+  }
+
+  const media = content[contentType] ?? {};
+  const examples = Object.values<any>(media.examples ?? {});
+  const example = media.example !== undefined
+    ? media.example
+    : examples.length > 0
+    ? examples[0].value
+    : __fakeSchema(media.schema, getSeed(request));
+
+  headers["Content-Type"] = contentType.includes("*") ? "application/octet-stream" : contentType;
+  if (isJsonContentType(contentType)) {
+    return new Response(JSON.stringify(example), { status: code, headers });
+  }
+  if (media.schema?.format === "binary") {
+    return new Response(new Uint8Array(), { status: code, headers });
+  }
+  return new Response(typeof example === "string" ? example : JSON.stringify(example), { status: code, headers });
+};
+
+/**
+ * Answers a request as the API would, from the spec
+ */
+export async function handler(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  let pathname = url.pathname;
+  if (BASE_PATH && pathname.startsWith(BASE_PATH)) {
+    pathname = pathname.slice(BASE_PATH.length) || "/";
+  }
+
+  const matching = routes.filter((route) => route.pattern.test(pathname));
+  const route = matching.find((candidate) => candidate.operation.method === request.method);
+  if (!route) {
+    // CORS preflight for operations the spec doesn't define OPTIONS for
+    if (request.method === "OPTIONS" && matching.length > 0) {
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+    return matching.length > 0
+      ? json(405, { message: \`\${request.method} is not allowed on \${pathname}\` }, {
+        Allow: [...new Set(matching.map((candidate) => candidate.operation.method))].join(", "),
+      })
+      : json(404, { message: \`No operation matches \${pathname}\` });
+  }
+
+  const match = route.pattern.exec(pathname)!;
+  let pathValues: Record<string, string>;
+  try {
+    pathValues = Object.fromEntries(route.names.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+  } catch {
+    return json(400, { message: \`\${pathname} is not a valid percent-encoded path\` });
+  }
+  const violations = await validateRequest(request, url, route.operation, pathValues);
+  if (violations.length > 0) {
+    return json(400, { message: "The request does not match the spec", violations });
+  }
+
+  return mockResponse(request, route.operation);
+}
+
+if (import.meta.main) {
+  Deno.serve({ port: ${port} }, handler);
+}
+`;
+};
@@ -0,0 +1,396 @@
+import { resolve, toFileUrl } from "@std/path";
+import { parse } from "@std/yaml";
+import type { OpenAPIData, OpenAPISchema } from "../types/interfaces.ts";
+import { getDefTypeName } from "./type-generators.ts";
+
+/**
+ * Thrown when a `$ref` cannot be resolved, points to a missing document or
+ * forms a cycle that cannot be represented as a named type.
+ */
+export class RefResolutionError extends Error {
+  /** The `$ref` value that failed to resolve */
+  readonly ref: string;
+  /** JSON pointer to the object holding the failing `$ref` */
+  readonly pointer: string;
+
+  constructor(message: string, ref: string, pointer: string) {
+    super(`${message} (at ${pointer})`);
+    this.name = "RefResolutionError";
+    this.ref = ref;
+    this.pointer = pointer;
+  }
+}
+
+interface Document {
+  url: string;
+  data: unknown;
+}
+
+interface ResolveContext {
+  root: Document;
+  documents: Map<string, Document>;
+  /** Schemas pulled in from external documents, keyed by "url#pointer" */
+  externalSchemas: Map<string, string>;
+  /** Schemas that will be added to the root `components.schemas` */
+  addedSchemas: Record<string, OpenAPISchema>;
+  /** Refs currently being inlined, used for cycle detection */
+  stack: string[];
+}
+
+const NAMED_SCHEMA_POINTER =
+  /^\/(?:components\/schemas|definitions)\/([^/]+)(?:\/\$defs\/([^/]+))?$/;
+
+/**
+ * Resolves every `$ref` in an OpenAPI document so the generators only ever
+ * see references of the form `#/components/schemas/Name`.
+ *
+ * - Refs to `#/components/schemas/*` are kept, they become named types.
+ * - Refs to parameters, responses, request bodies, headers or any other
+ *   location are inlined.
+ * - Schemas referenced from external files (`common.yaml#/components/schemas/Error`)
+ *   are copied into `components.schemas` and the ref is rewritten to point there.
+ *
+ * @param apiData - The parsed OpenAPI document
+ * @param specPath - Path of the document, external refs are resolved relative to it
+ * @returns A new document with all references resolved
+ * @throws RefResolutionError for missing targets and circular non-schema refs
+ */
+export async function resolveRefs(
+  apiData: OpenAPIData,
+  specPath?: string,
+): Promise<OpenAPIData> {
+  const rootUrl = specPath
+    ? toFileUrl(resolve(specPath)).href
+    : "memory:root";
+  const root: Document = { url: rootUrl, data: apiData };
+
+  const context: ResolveContext = {
+    root,
+    documents: new Map([[rootUrl, root]]),
+    externalSchemas: new Map(),
+    addedSchemas: {},
+    stack: [],
+  };
+
+  const resolved = await resolveValue(apiData, root, "#", context) as OpenAPIData;
+
+  if (Object.keys(context.addedSchemas).length > 0) {
+    resolved.components = {
+      ...resolved.components,
+      schemas: {
+        ...resolved.components?.schemas,
+        ...context.addedSchemas,
+      },
+    };
+  }
+
+  return resolved;
+}
+
+/**
+ * The synchronous subset of {@link resolveRefs} for documents that are
+ * already in memory: local refs are resolved the same way, external refs are
+ * left as they are.
+ *
+ * @param apiData - The parsed OpenAPI document
+ * @returns A new document with all local references resolved
+ * @throws RefResolutionError for missing targets and circular non-schema refs
+ */
+export function resolveLocalRefs(apiData: OpenAPIData): OpenAPIData {
+  return resolveLocalValue(apiData, apiData, "#", []) as OpenAPIData;
+}
+
+function resolveLocalValue(
+  value: unknown,
+  root: unknown,
+  pointer: string,
+  stack: string[],
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => resolveLocalValue(item, root, `${pointer}/${i}`, stack));
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  const object = value as Record<string, unknown>;
+  const ref = object.$ref;
+  if (typeof ref !== "string" || !ref.startsWith("#")) {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(object)) {
+      result[key] = resolveLocalValue(child, root, `${pointer}/${escapePointerSegment(key)}`, stack);
+    }
+    return result;
+  }
+
+  const targetPointer = decodeFragment(ref, ref.slice(1), pointer);
+  if (NAMED_SCHEMA_POINTER.test(targetPointer) && targetPointer.startsWith("/components/")) {
+    return { ...object, $ref: `#${targetPointer}` };
+  }
+
+  if (stack.includes(targetPointer)) {
+    throw new RefResolutionError(
+      `Circular $ref "${ref}" (${[...stack, targetPointer].map((key) => `#${key}`).join(" -> ")})`,
+      ref,
+      pointer,
+    );
+  }
+
+  const targetValue = getByPointer(root, targetPointer);
+  if (targetValue === undefined) {
+    throw new RefResolutionError(`Unresolved $ref "${ref}"`, ref, pointer);
+  }
+
+  const resolved = resolveLocalValue(targetValue, root, `#${targetPointer}`, [...stack, targetPointer]);
+  const { $ref: _ref, ...siblings } = object;
+  if (resolved && typeof resolved === "object" && !Array.isArray(resolved)) {
+    return { ...resolved, ...siblings };
+  }
+  return resolved;
+}
+
+async function resolveValue(
+  value: unknown,
+  document: Document,
+  pointer: string,
+  context: ResolveContext,
+): Promise<unknown> {
+  if (Array.isArray(value)) {
+    const items = [];
+    for (let i = 0; i < value.length; i++) {
+      items.push(await resolveValue(value[i], document, `${pointer}/${i}`, context));
+    }
+    return items;
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  const object = value as Record<string, unknown>;
+  if (typeof object.$ref === "string") {
+    return await resolveReference(object, document, pointer, context);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    result[key] = await resolveValue(
+      child,
+      document,
+      `${pointer}/${escapePointerSegment(key)}`,
+      context,
+    );
+  }
+  return result;
+}
+
+async function resolveReference(
+  value: Record<string, unknown>,
+  document: Document,
+  pointer: string,
+  context: ResolveContext,
+): Promise<unknown> {
+  const ref = value.$ref as string;
+  const hashIndex = ref.indexOf("#");
+  const filePart = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+  const targetPointer = hashIndex === -1 ? "" : decodeFragment(ref, ref.slice(hashIndex + 1), pointer);
+
+  const target = filePart
+    ? await loadDocument(filePart, document, ref, pointer, context)
+    : document;
+
+  const namedSchema = targetPointer.match(NAMED_SCHEMA_POINTER);
+
+  // Local component schemas stay as named references
+  if (target === context.root && namedSchema && targetPointer.startsWith("/components/")) {
+    return { ...value, $ref: `#${targetPointer}` };
+  }
+
+  // External schemas are registered as components of the root document
+  if (target !== context.root && (namedSchema || targetPointer === "")) {
+    const schemaName = namedSchema?.[2]
+      ? getDefTypeName(namedSchema[1], namedSchema[2])
+      : namedSchema?.[1];
+    const name = await registerExternalSchema(
+      target,
+      targetPointer,
+      schemaName,
+      ref,
+      pointer,
+      context,
+    );
+    const { $ref: _ref, ...siblings } = value;
+    return { ...siblings, $ref: `#/components/schemas/${name}` };
+  }
+
+  // Everything else is inlined
+  const key = `${target.url}#${targetPointer}`;
+  if (context.stack.includes(key)) {
+    throw new RefResolutionError(
+      `Circular $ref "${ref}" (${[...context.stack, key].join(" -> ")})`,
+      ref,
+      pointer,
+    );
+  }
+
+  const targetValue = getByPointer(target.data, targetPointer);
+  if (targetValue === undefined) {
+    throw new RefResolutionError(`Unresolved $ref "${ref}"`, ref, pointer);
+  }
+
+  context.stack.push(key);
+  const resolved = await resolveValue(targetValue, target, `#${targetPointer}`, context);
+  context.stack.pop();
+
+  const { $ref: _ref, ...siblings } = value;
+  if (resolved && typeof resolved === "object" && !Array.isArray(resolved)) {
+    return { ...resolved, ...siblings };
+  }
+  return resolved;
+}
+
+async function registerExternalSchema(
+  target: Document,
+  targetPointer: string,
+  schemaName: string | undefined,
+  ref: string,
+  pointer: string,
+  context: ResolveContext,
+): Promise<string> {
+  const key = `${target.url}#${targetPointer}`;
+  const existing = context.externalSchemas.get(key);
+  if (existing) {
+    return existing;
+  }
+
+  const schema = getByPointer(target.data, targetPointer);
+  if (schema === undefined) {
+    throw new RefResolutionError(`Unresolved $ref "${ref}"`, ref, pointer);
+  }
+
+  const baseName = toTypeName(schemaName ?? fileBaseName(target.url));
+  const name = uniqueSchemaName(baseName, target.url, context);
+
+  // Register before resolving so recursive schemas point back to themselves
+  context.externalSchemas.set(key, name);
+  context.addedSchemas[name] = {};
+  context.addedSchemas[name] = await resolveValue(
+    schema,
+    target,
+    `#${targetPointer}`,
+    context,
+  ) as OpenAPISchema;
+
+  return name;
+}
+
+function uniqueSchemaName(
+  baseName: string,
+  documentUrl: string,
+  context: ResolveContext,
+): string {
+  const taken = (name: string) =>
+    name in ((context.root.data as OpenAPIData).components?.schemas ?? {}) ||
+    name in context.addedSchemas;
+
+  if (!taken(baseName)) {
+    return baseName;
+  }
+
+  const prefixed = toTypeName(fileBaseName(documentUrl)) + baseName;
+  let name = prefixed;
+  let counter = 2;
+  while (taken(name)) {
+    name = `${prefixed}${counter++}`;
+  }
+  return name;
+}
+
+async function loadDocument(
+  filePart: string,
+  from: Document,
+  ref: string,
+  pointer: string,
+  context: ResolveContext,
+): Promise<Document> {
+  if (from.url.startsWith("memory:")) {
+    throw new RefResolutionError(
+      `Cannot resolve external $ref "${ref}" without a spec path`,
+      ref,
+      pointer,
+    );
+  }
+
+  const url = new URL(filePart, from.url).href;
+  const cached = context.documents.get(url);
+  if (cached) {
+    return cached;
+  }
+
+  let text: string;
+  try {
+    text = await Deno.readTextFile(new URL(url));
+  } catch (error) {
+    throw new RefResolutionError(
+      `Cannot read external document for $ref "${ref}": ${(error as Error).message}`,
+      ref,
+      pointer,
+    );
+  }
+
+  const document: Document = {
+    url,
+    data: url.endsWith(".json") ? JSON.parse(text) : parse(text),
+  };
+  context.documents.set(url, document);
+  return document;
+}
+
+/**
+ * The JSON pointer in a `$ref` fragment, percent-decoded
+ */
+function decodeFragment(ref: string, fragment: string, pointer: string): string {
+  try {
+    return decodeURIComponent(fragment);
+  } catch {
+    throw new RefResolutionError(`Malformed percent-encoding in $ref "${ref}"`, ref, pointer);
+  }
+}
+
+function getByPointer(data: unknown, pointer: string): unknown {
+  if (pointer === "" || pointer === "/") {
+    return data;
+  }
+
+  let current = data;
+  for (const segment of pointer.slice(1).split("/")) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[unescapePointerSegment(segment)];
+  }
+  return current;
+}
+
+export function escapePointerSegment(segment: string): string {
+  return segment.replaceAll("~", "~0").replaceAll("/", "~1");
+}
+
+function unescapePointerSegment(segment: string): string {
+  return segment.replaceAll("~1", "/").replaceAll("~0", "~");
+}
+
+function fileBaseName(url: string): string {
+  const fileName = url.split("/").pop() || "External";
+  return fileName.replace(/\.(json|ya?ml)$/, "");
+}
+
+function toTypeName(name: string): string {
+  const typeName = name
+    .split(/[^a-zA-Z0-9_$]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  return /^[0-9]/.test(typeName) ? `_${typeName}` : typeName || "External";
+}
@@ -0,0 +1,398 @@
+import { escapePointerSegment } from "./ref-resolver.ts";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  /** JSON pointer to the offending node, e.g. "#/paths/~1todos~1{id}/put" */
+  pointer: string;
+  /** 1-based line in the source document (YAML only) */
+  line?: number;
+  /** 1-based column in the source document (YAML only) */
+  column?: number;
+}
+
+/**
+ * Thrown by generateFromOpenAPI in strict mode when validation reports errors
+ */
+export class SpecValidationError extends Error {
+  readonly diagnostics: Diagnostic[];
+
+  constructor(diagnostics: Diagnostic[]) {
+    const errors = diagnostics.filter((d) => d.severity === "error");
+    super(
+      `OpenAPI specification has ${errors.length} error(s):\n` +
+        errors.map(formatDiagnostic).join("\n"),
+    );
+    this.name = "SpecValidationError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+const PARAMETER_LOCATIONS = ["query", "header", "path", "cookie"];
+
+/**
+ * Validates an OpenAPI 3 document before generation and reports problems
+ * that would otherwise crash the generators or produce broken TypeScript.
+ *
+ * @param apiData - The parsed (unresolved) OpenAPI document
+ * @param yamlSource - The YAML text the document was parsed from, used to add line and column numbers
+ * @returns Errors and warnings, each with a JSON pointer to the offending node
+ */
+export function validateSpec(apiData: unknown, yamlSource?: string): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const reported = new Set<string>();
+  const report = (severity: DiagnosticSeverity, pointer: string, message: string) => {
+    // Path-level parameters are checked once per operation, report them once
+    const key = `${pointer} ${message}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    diagnostics.push({ severity, message, pointer });
+  };
+
+  if (!isObject(apiData)) {
+    report("error", "#", "Specification is not an object");
+    return diagnostics;
+  }
+
+  if (!apiData.openapi) {
+    report("warning", "#", 'Missing "openapi" version field');
+  }
+
+  validateServers(apiData, report);
+  validateComponents(apiData, report);
+
+  if (!isObject(apiData.paths)) {
+    report("error", "#/paths", 'Missing "paths" object');
+  } else {
+    validatePaths(apiData, report);
+  }
+
+  validateRefs(apiData, apiData, "#", report);
+
+  if (yamlSource) {
+    for (const diagnostic of diagnostics) {
+      Object.assign(diagnostic, locatePointer(yamlSource, diagnostic.pointer));
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Formats a diagnostic as a single line, e.g.
+ * `error #/servers/0 (3:5): Server is missing "url"`
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const location = diagnostic.line !== undefined
+    ? ` (${diagnostic.line}:${diagnostic.column})`
+    : "";
+  return `${diagnostic.severity} ${diagnostic.pointer}${location}: ${diagnostic.message}`;
+}
+
+type Reporter = (severity: DiagnosticSeverity, pointer: string, message: string) => void;
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === "object";
+}
+
+function validateServers(apiData: JsonObject, report: Reporter): void {
+  if (apiData.servers === undefined) {
+    report("warning", "#", 'No "servers" defined, the client baseUrl will not be typed');
+    return;
+  }
+
+  if (!Array.isArray(apiData.servers)) {
+    report("error", "#/servers", '"servers" must be an array');
+    return;
+  }
+
+  apiData.servers.forEach((server: unknown, index: number) => {
+    if (!isObject(server) || typeof server.url !== "string" || server.url === "") {
+      report("error", `#/servers/${index}`, 'Server is missing "url"');
+    }
+  });
+}
+
+function validateComponents(apiData: JsonObject, report: Reporter): void {
+  if (!apiData.components) {
+    report("warning", "#", 'No "components" section, no types will be generated');
+    return;
+  }
+
+  if (!isObject(apiData.components) || !apiData.components.schemas) {
+    report("warning", "#/components", 'No "components.schemas", no types will be generated');
+  }
+}
+
+function validatePaths(apiData: JsonObject, report: Reporter): void {
+  const operationIds = new Map<string, string>();
+
+  for (const [path, pathItem] of Object.entries(apiData.paths as JsonObject)) {
+    const pathPointer = `#/paths/${escapePointerSegment(path)}`;
+
+    if (!path.startsWith("/")) {
+      report("error", pathPointer, `Path "${path}" must start with "/"`);
+    }
+
+    if (!isObject(pathItem)) {
+      report("error", pathPointer, "Path item must be an object");
+      continue;
+    }
+
+    const pathLevel = validateParameters(
+      apiData,
+      pathItem.parameters,
+      `${pathPointer}/parameters`,
+      report,
+    );
+    const templateParams = path.match(/\{([^}]+)\}/g)?.map((p) => p.slice(1, -1)) ?? [];
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (operation === undefined) continue;
+
+      const operationPointer = `${pathPointer}/${method}`;
+      if (!isObject(operation)) {
+        report("error", operationPointer, "Operation must be an object");
+        continue;
+      }
+
+      const operationId = operation.operationId;
+      if (typeof operationId === "string" && operationId) {
+        const previous = operationIds.get(operationId);
+        if (previous) {
+          report(
+            "error",
+            `${operationPointer}/operationId`,
+            `Duplicate operationId "${operationId}" (also used at ${previous})`,
+          );
+        } else {
+          operationIds.set(operationId, operationPointer);
+        }
+      }
+
+      if (!operation.responses) {
+        report("warning", operationPointer, 'Operation has no "responses"');
+      }
+
+      const operationLevel = validateParameters(
+        apiData,
+        operation.parameters,
+        `${operationPointer}/parameters`,
+        report,
+      );
+      const declared = new Map([...pathLevel.pathParameters, ...operationLevel.pathParameters]);
+      // A parameter that couldn't be looked up may declare any of them
+      const complete = !pathLevel.hasUncheckedRefs && !operationLevel.hasUncheckedRefs;
+
+      for (const name of templateParams) {
+        if (complete && !declared.has(name)) {
+          report(
+            "error",
+            operationPointer,
+            `Path parameter "{${name}}" is not declared as an "in: path" parameter`,
+          );
+        }
+      }
+
+      for (const [name, parameterPointer] of declared) {
+        if (!templateParams.includes(name)) {
+          report(
+            "error",
+            parameterPointer,
+            `Path parameter "${name}" does not appear in the path template`,
+          );
+        }
+      }
+
+      validateSecurity(apiData, operation.security, `${operationPointer}/security`, report);
+    }
+  }
+
+  validateSecurity(apiData, apiData.security, "#/security", report);
+}
+
+interface DeclaredParameters {
+  /** Declared path parameters, mapped to the pointer of their declaration */
+  pathParameters: Map<string, string>;
+  /** Whether the list has unresolvable refs or refs into other files */
+  hasUncheckedRefs: boolean;
+}
+
+/**
+ * Validates a parameter list and returns the path parameters it declares
+ */
+function validateParameters(
+  apiData: JsonObject,
+  parameters: unknown,
+  pointer: string,
+  report: Reporter,
+): DeclaredParameters {
+  const declared: DeclaredParameters = { pathParameters: new Map(), hasUncheckedRefs: false };
+  if (parameters === undefined) return declared;
+
+  if (!Array.isArray(parameters)) {
+    report("error", pointer, '"parameters" must be an array');
+    return declared;
+  }
+
+  parameters.forEach((rawParameter: unknown, index: number) => {
+    const parameterPointer = `${pointer}/${index}`;
+    const parameter = lookupLocalRef(apiData, rawParameter);
+    // Unresolvable refs are reported by validateRefs, refs into other files can't be checked
+    if (!isObject(parameter) || parameter.$ref) {
+      if (isObject(rawParameter) && rawParameter.$ref !== undefined) declared.hasUncheckedRefs = true;
+      return;
+    }
+
+    if (!parameter.name) {
+      report("error", parameterPointer, 'Parameter is missing "name"');
+    }
+    if (typeof parameter.in !== "string" || !PARAMETER_LOCATIONS.includes(parameter.in)) {
+      report(
+        "error",
+        parameterPointer,
+        `Parameter "in" must be one of ${PARAMETER_LOCATIONS.join(", ")}`,
+      );
+    }
+    if (parameter.in === "path" && typeof parameter.name === "string" && parameter.name) {
+      declared.pathParameters.set(parameter.name, parameterPointer);
+      if (parameter.required !== true) {
+        report("warning", parameterPointer, `Path parameter "${parameter.name}" must be required`);
+      }
+    }
+  });
+
+  return declared;
+}
+
+function validateSecurity(
+  apiData: JsonObject,
+  security: unknown,
+  pointer: string,
+  report: Reporter,
+): void {
+  if (!Array.isArray(security)) return;
+
+  const components = isObject(apiData.components) ? apiData.components : {};
+  const schemes = isObject(components.securitySchemes) ? components.securitySchemes : {};
+  security.forEach((requirement: unknown, index: number) => {
+    for (const schemeName of Object.keys(isObject(requirement) ? requirement : {})) {
+      if (!(schemeName in schemes)) {
+        report(
+          "error",
+          `${pointer}/${index}/${escapePointerSegment(schemeName)}`,
+          `Security scheme "${schemeName}" is not defined in components.securitySchemes`,
+        );
+      }
+    }
+  });
+}
+
+function validateRefs(apiData: JsonObject, value: unknown, pointer: string, report: Reporter): void {
+  if (!isObject(value)) return;
+
+  if (typeof value.$ref === "string" && value.$ref.startsWith("#")) {
+    if (lookupLocalRef(apiData, value) === undefined) {
+      report("error", pointer, `Unresolved $ref "${value.$ref}"`);
+    }
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    validateRefs(apiData, child, `${pointer}/${escapePointerSegment(key)}`, report);
+  }
+}
+
+/**
+ * Follows local refs (`#/...`). Refs into other files can't be checked here
+ * and are returned as-is.
+ */
+function lookupLocalRef(apiData: JsonObject, value: unknown, seen = new Set<string>()): unknown {
+  if (!isObject(value) || typeof value.$ref !== "string" || !value.$ref.startsWith("#")) {
+    return value;
+  }
+  const ref = value.$ref;
+  if (seen.has(ref)) return value;
+  seen.add(ref);
+
+  let current: unknown = apiData;
+  for (const segment of ref.slice(2).split("/").filter(Boolean)) {
+    if (!isObject(current)) return undefined;
+    current = current[decodeURIComponent(segment).replaceAll("~1", "/").replaceAll("~0", "~")];
+  }
+  return current === undefined ? undefined : lookupLocalRef(apiData, current, seen);
+}
+
+interface SourceLine {
+  line: number;
+  indent: number;
+  text: string;
+}
+
+/**
+ * Finds the line and column of a JSON pointer in block-style YAML. When a
+ * segment can't be found, the position of the closest ancestor is returned.
+ */
+export function locatePointer(
+  yamlSource: string,
+  pointer: string,
+): { line?: number; column?: number } {
+  let lines: SourceLine[] = yamlSource.split("\n")
+    .map((text, index) => ({
+      line: index + 1,
+      indent: text.length - text.trimStart().length,
+      text: text.trim(),
+    }))
+    .filter((l) => l.text !== "" && !l.text.startsWith("#"));
+
+  let location: { line?: number; column?: number } = {};
+  const segments = pointer.replace(/^#\/?/, "").split("/").filter((s) => s !== "")
+    .map((s) => s.replaceAll("~1", "/").replaceAll("~0", "~"));
+
+  for (const segment of segments) {
+    if (lines.length === 0) break;
+    const childIndent = lines[0].indent;
+    const siblings = lines.filter((l) => l.indent === childIndent);
+
+    let index: number;
+    let entry: SourceLine | undefined;
+    if (/^\d+$/.test(segment) && lines[0].text.startsWith("-")) {
+      entry = siblings.filter((l) => l.text.startsWith("-"))[Number(segment)];
+      index = entry ? lines.indexOf(entry) : -1;
+    } else {
+      const keyPattern = new RegExp(`^(["']?)${escapeRegExp(segment)}\\1\\s*:`);
+      entry = siblings.find((l) => keyPattern.test(l.text));
+      index = entry ? lines.indexOf(entry) : -1;
+    }
+
+    if (!entry || index === -1) break;
+    location = { line: entry.line, column: entry.indent + 1 };
+
+    // Collect the lines nested under the entry
+    let end = index + 1;
+    while (end < lines.length && lines[end].indent > entry.indent) end++;
+    const nested = lines.slice(index + 1, end);
+
+    if (entry.text.startsWith("-")) {
+      // A sequence item: the content after "- " is the first line of the item
+      const content = entry.text.replace(/^-\s*/, "");
+      const itemIndent = entry.indent + (entry.text.length - content.length);
+      lines = content
+        ? [{ line: entry.line, indent: itemIndent, text: content }, ...nested]
+        : nested;
+    } else {
+      lines = nested;
+    }
+  }
+
+  return location;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
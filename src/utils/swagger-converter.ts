@@ -0,0 +1,444 @@
+import type {
+  OAuthFlow,
+  OpenAPIData,
+  SecurityScheme,
+  SwaggerData,
+  SwaggerParameter,
+  SwaggerResponse,
+  SwaggerSecurityScheme,
+} from "../types/interfaces.ts";
+
+/** A JSON object of the document being converted */
+type JsonObject = Record<string, unknown>;
+
+interface SwaggerOperation {
+  parameters?: SwaggerParameter[];
+  consumes?: string[];
+  produces?: string[];
+  schemes?: string[];
+  responses?: Record<string, SwaggerResponse>;
+  [key: string]: unknown;
+}
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch"];
+
+const SCHEMA_KEYWORDS = [
+  "type",
+  "format",
+  "items",
+  "enum",
+  "default",
+  "maximum",
+  "exclusiveMaximum",
+  "minimum",
+  "exclusiveMinimum",
+  "maxLength",
+  "minLength",
+  "pattern",
+  "maxItems",
+  "minItems",
+  "uniqueItems",
+  "multipleOf",
+];
+
+const OAUTH2_FLOWS: Record<string, string> = {
+  implicit: "implicit",
+  password: "password",
+  application: "clientCredentials",
+  accessCode: "authorizationCode",
+};
+
+/**
+ * Checks whether a parsed specification is a Swagger 2.0 document
+ */
+export function isSwagger2(data: unknown): data is SwaggerData {
+  return !!data && typeof data === "object" && String((data as JsonObject).swagger).startsWith("2");
+}
+
+/**
+ * Upgrades a Swagger 2.0 document to OpenAPI 3.0 so the type and client
+ * generators can work on it.
+ *
+ * - `definitions`, `parameters`, `responses` and `securityDefinitions` move to `components`
+ * - `in: body` and `in: formData` parameters become a `requestBody`
+ * - `host`, `basePath` and `schemes` become `servers`
+ * - `consumes`/`produces` become the media types of request and response `content`
+ *
+ * @param swagger - The parsed Swagger 2.0 document
+ * @returns The equivalent OpenAPI 3.0 document
+ */
+export function convertSwaggerToOpenAPI(swagger: SwaggerData): OpenAPIData {
+  const consumes = swagger.consumes ?? ["application/json"];
+  const produces = swagger.produces ?? ["application/json"];
+
+  const components: JsonObject = {
+    schemas: rewriteRefs(swagger.definitions ?? {}),
+  };
+
+  const parameters: Record<string, JsonObject> = {};
+  const requestBodies: Record<string, JsonObject> = {};
+  for (const [name, parameter] of Object.entries(swagger.parameters ?? {})) {
+    if (parameter.in === "body") {
+      requestBodies[name] = convertBodyParameter(parameter, consumes);
+    } else if (parameter.in !== "formData") {
+      parameters[name] = convertParameter(parameter);
+    }
+  }
+  if (Object.keys(parameters).length > 0) components.parameters = parameters;
+  if (Object.keys(requestBodies).length > 0) components.requestBodies = requestBodies;
+
+  if (swagger.responses) {
+    components.responses = Object.fromEntries(
+      Object.entries(swagger.responses).map((
+        [name, response],
+      ) => [name, convertResponse(response, produces)]),
+    );
+  }
+
+  if (swagger.securityDefinitions) {
+    components.securitySchemes = Object.fromEntries(
+      Object.entries(swagger.securityDefinitions).map((
+        [name, scheme],
+      ) => [name, convertSecurityScheme(scheme)]),
+    );
+  }
+
+  const paths: Record<string, JsonObject> = {};
+  for (const [path, pathItem] of Object.entries(swagger.paths ?? {})) {
+    paths[path] = convertPathItem(pathItem, swagger, consumes, produces);
+  }
+
+  const {
+    swagger: _swagger,
+    host: _host,
+    basePath: _basePath,
+    schemes: _schemes,
+    consumes: _consumes,
+    produces: _produces,
+    definitions: _definitions,
+    parameters: _parameters,
+    responses: _responses,
+    securityDefinitions: _securityDefinitions,
+    paths: _paths,
+    ...rest
+  } = swagger;
+
+  return {
+    ...rest,
+    openapi: "3.0.3",
+    servers: convertServers(swagger) as OpenAPIData["servers"],
+    paths,
+    components: components as OpenAPIData["components"],
+  };
+}
+
+function convertServers(swagger: SwaggerData): Array<{ url: string }> {
+  const basePath = swagger.basePath ?? "";
+  if (!swagger.host) {
+    return [{ url: basePath || "/" }];
+  }
+
+  const schemes = swagger.schemes?.length ? swagger.schemes : ["https"];
+  return schemes.map((scheme) => ({
+    url: `${scheme}://${swagger.host}${basePath}`,
+  }));
+}
+
+function convertPathItem(
+  pathItem: JsonObject,
+  swagger: SwaggerData,
+  consumes: string[],
+  produces: string[],
+): JsonObject {
+  const result: JsonObject = {};
+  const { parameters: pathParameters, ...rest } = pathItem;
+
+  for (const [key, value] of Object.entries(rest)) {
+    if (!HTTP_METHODS.includes(key)) {
+      result[key] = rewriteRefs(value);
+      continue;
+    }
+
+    const operation = value as SwaggerOperation;
+    result[key] = convertOperation(
+      operation,
+      mergeParameters((pathParameters ?? []) as SwaggerParameter[], operation.parameters ?? [], swagger),
+      operation.consumes ?? consumes,
+      operation.produces ?? produces,
+    );
+  }
+
+  return result;
+}
+
+function convertOperation(
+  operation: SwaggerOperation,
+  parameters: SwaggerParameter[],
+  consumes: string[],
+  produces: string[],
+): JsonObject {
+  const {
+    parameters: _parameters,
+    consumes: _consumes,
+    produces: _produces,
+    schemes: _schemes,
+    responses,
+    ...rest
+  } = operation;
+
+  const result: JsonObject = rewriteRefs(rest);
+
+  const bodyParameter = parameters.find((p) => p.in === "body");
+  const formParameters = parameters.filter((p) => p.in === "formData");
+  const otherParameters = parameters.filter((p) =>
+    p.in !== "body" && p.in !== "formData"
+  );
+
+  if (otherParameters.length > 0) {
+    result.parameters = otherParameters.map((p) =>
+      p.$ref ? rewriteRefs(p) : convertParameter(p)
+    );
+  }
+
+  if (bodyParameter) {
+    result.requestBody = bodyParameter.$ref
+      ? { $ref: bodyParameter.$ref }
+      : convertBodyParameter(bodyParameter, consumes);
+  } else if (formParameters.length > 0) {
+    result.requestBody = convertFormParameters(formParameters, consumes);
+  }
+
+  result.responses = Object.fromEntries(
+    Object.entries(responses ?? {}).map((
+      [status, response],
+    ) => [status, convertResponse(response, produces)]),
+  );
+
+  return result;
+}
+
+/**
+ * Merges path-level and operation-level parameters. Local parameter refs are
+ * looked up so body and formData parameters can be moved to the requestBody.
+ */
+function mergeParameters(
+  pathParameters: SwaggerParameter[],
+  operationParameters: SwaggerParameter[],
+  swagger: SwaggerData,
+): SwaggerParameter[] {
+  const lookup = (parameter: SwaggerParameter): SwaggerParameter => {
+    if (typeof parameter.$ref !== "string" || !parameter.$ref.startsWith("#/parameters/")) {
+      return parameter;
+    }
+    const target = swagger.parameters?.[parameter.$ref.slice("#/parameters/".length)];
+    // Body refs are kept as refs to the matching requestBodies component
+    if (target?.in === "body") {
+      return { in: "body", $ref: parameter.$ref.replace("#/parameters/", "#/components/requestBodies/") };
+    }
+    if (target?.in === "formData") {
+      return target;
+    }
+    return { ...parameter, in: target?.in, name: target?.name };
+  };
+
+  const merged = new Map<string, SwaggerParameter>();
+  for (const parameter of [...pathParameters, ...operationParameters].map(lookup)) {
+    merged.set(`${parameter.in}:${parameter.name ?? parameter.$ref}`, parameter);
+  }
+
+  // The looked-up name/in were only needed for merging, refs stay refs
+  return Array.from(merged.values()).map((parameter) =>
+    parameter.$ref && parameter.in !== "body" ? { $ref: parameter.$ref } : parameter
+  );
+}
+
+function convertParameter(parameter: SwaggerParameter): JsonObject {
+  if (parameter.$ref) {
+    return rewriteRefs(parameter);
+  }
+
+  const result: JsonObject = {
+    name: parameter.name,
+    in: parameter.in,
+  };
+  if (parameter.description) result.description = parameter.description;
+  if (parameter.required || parameter.in === "path") result.required = true;
+  if (parameter.allowEmptyValue) result.allowEmptyValue = true;
+
+  result.schema = extractSchema(parameter);
+  Object.assign(result, convertCollectionFormat(parameter));
+
+  return result;
+}
+
+function convertCollectionFormat(parameter: SwaggerParameter): JsonObject {
+  if (parameter.type !== "array") {
+    return {};
+  }
+
+  switch (parameter.collectionFormat) {
+    case "multi":
+      return { style: "form", explode: true };
+    case "ssv":
+      return { style: "spaceDelimited", explode: false };
+    case "pipes":
+      return { style: "pipeDelimited", explode: false };
+    case "csv":
+    default:
+      return parameter.in === "query" || parameter.in === "formData"
+        ? { style: "form", explode: false }
+        : { style: "simple", explode: false };
+  }
+}
+
+function convertBodyParameter(parameter: SwaggerParameter, consumes: string[]): JsonObject {
+  const schema = rewriteRefs(parameter.schema ?? {});
+  const result: JsonObject = {
+    content: Object.fromEntries(consumes.map((mediaType) => [mediaType, { schema }])),
+  };
+  if (parameter.description) result.description = parameter.description;
+  if (parameter.required) result.required = true;
+  return result;
+}
+
+function convertFormParameters(parameters: SwaggerParameter[], consumes: string[]): JsonObject {
+  const properties: Record<string, JsonObject> = {};
+  const required: string[] = [];
+
+  for (const parameter of parameters) {
+    const schema = extractSchema(parameter);
+    if (parameter.description) schema.description = parameter.description;
+    properties[parameter.name!] = schema;
+    if (parameter.required) required.push(parameter.name!);
+  }
+
+  const schema: JsonObject = { type: "object", properties };
+  if (required.length > 0) schema.required = required;
+
+  const hasFile = parameters.some((p) => p.type === "file");
+  const formTypes = consumes.filter((mediaType) =>
+    mediaType === "multipart/form-data" || mediaType === "application/x-www-form-urlencoded"
+  );
+  const mediaTypes = formTypes.length > 0
+    ? formTypes
+    : [hasFile ? "multipart/form-data" : "application/x-www-form-urlencoded"];
+
+  return {
+    content: Object.fromEntries(mediaTypes.map((mediaType) => [mediaType, { schema }])),
+    ...(required.length > 0 ? { required: true } : {}),
+  };
+}
+
+function convertResponse(response: SwaggerResponse, produces: string[]): JsonObject {
+  if (response.$ref) {
+    return rewriteRefs({ ...response });
+  }
+
+  const result: JsonObject = {
+    description: response.description ?? "",
+  };
+
+  if (response.schema) {
+    const schema = rewriteRefs(response.schema);
+    result.content = Object.fromEntries(
+      produces.map((mediaType) => {
+        const mediaTypeObject: JsonObject = { schema };
+        if (response.examples?.[mediaType] !== undefined) {
+          mediaTypeObject.example = response.examples[mediaType];
+        }
+        return [mediaType, mediaTypeObject];
+      }),
+    );
+  }
+
+  if (response.headers) {
+    result.headers = Object.fromEntries(
+      Object.entries(response.headers).map(([name, header]) => {
+        const { description, ...schema } = header;
+        return [name, { ...(description ? { description } : {}), schema: extractSchema(schema) }];
+      }),
+    );
+  }
+
+  return result;
+}
+
+function convertSecurityScheme(scheme: SwaggerSecurityScheme): SecurityScheme {
+  const description = scheme.description ? { description: scheme.description } : {};
+
+  switch (scheme.type) {
+    case "basic":
+      return { type: "http", scheme: "basic", ...description };
+    case "apiKey":
+      return { type: "apiKey", name: scheme.name, in: scheme.in, ...description };
+    case "oauth2": {
+      const flow: OAuthFlow = { scopes: scheme.scopes ?? {} };
+      if (scheme.authorizationUrl) flow.authorizationUrl = scheme.authorizationUrl;
+      if (scheme.tokenUrl) flow.tokenUrl = scheme.tokenUrl;
+      return {
+        type: "oauth2",
+        flows: { [OAUTH2_FLOWS[scheme.flow!] ?? scheme.flow]: flow },
+        ...description,
+      };
+    }
+    default:
+      return rewriteRefs(scheme);
+  }
+}
+
+/**
+ * Builds a schema object from the inline type keywords of a Swagger 2.0
+ * parameter or header
+ */
+function extractSchema(source: JsonObject): JsonObject {
+  const schema: JsonObject = {};
+  for (const keyword of SCHEMA_KEYWORDS) {
+    if (source[keyword] !== undefined) {
+      schema[keyword] = keyword === "items" ? extractSchema(source.items as JsonObject) : source[keyword];
+    }
+  }
+  if (source.$ref) {
+    return rewriteRefs({ $ref: source.$ref });
+  }
+  return convertSchema(schema);
+}
+
+function convertSchema(schema: JsonObject): JsonObject {
+  if (schema.type === "file") {
+    return { ...schema, type: "string", format: "binary" };
+  }
+  return schema;
+}
+
+/**
+ * Rewrites local Swagger 2.0 refs and schema keywords to their OpenAPI 3
+ * equivalents. Refs into other files are left alone, the ref resolver
+ * understands `definitions` in external documents.
+ */
+function rewriteRefs<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(rewriteRefs) as T;
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  const result: JsonObject = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "$ref" && typeof child === "string") {
+      result.$ref = child
+        .replace(/^#\/definitions\//, "#/components/schemas/")
+        .replace(/^#\/parameters\//, "#/components/parameters/")
+        .replace(/^#\/responses\//, "#/components/responses/");
+    } else if (key === "x-nullable") {
+      result.nullable = child;
+    } else if (key === "discriminator" && typeof child === "string") {
+      result.discriminator = { propertyName: child };
+    } else {
+      result[key] = rewriteRefs(child);
+    }
+  }
+
+  return convertSchema(result) as T;
+}
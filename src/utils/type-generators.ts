@@ -1,9 +1,18 @@
 import { OpenAPISchema, OpenAPIData } from "../types/interfaces.ts";
+import { createValidatorsFromApiData, generateSchemaTable } from "./validator-generators.ts";
+import { createFakesFromApiData } from "./fake-data-generators.ts";
 
+export interface TypeGeneratorOptions {
+  /** Also emit runtime validators, `validate<Type>` and `is<Type>`, for every schema */
+  validators?: boolean;
+  /** Also emit seeded fake data factories, `fake<Type>(seed?)`, for every schema */
+  fakes?: boolean;
+}
 
-export const createTypesFromApiData = (apiData: OpenAPIData): string => {
-    const schemas = apiData.components.schemas;
-    if(schemas == undefined || Object.keys(schemas).length === 0) {
+export const createTypesFromApiData = (apiData: OpenAPIData, options: TypeGeneratorOptions = {}): string => {
+    const schemas = apiData.components?.schemas;
+    // The generated client relies on __validateSchema even without component schemas
+    if((schemas == undefined || Object.keys(schemas).length === 0) && !options.validators) {
       return "";
     }
     let typesContent = `// Auto-generated TypeScript types from OpenAPI schema
@@ -11,16 +20,44 @@ export const createTypesFromApiData = (apiData: OpenAPIData): string => {
   
   `;
   
-    for (const [typeName, schema] of Object.entries(schemas)) {
+    for (const [typeName, schema] of Object.entries(schemas ?? {})) {
       typesContent += generateTypeDefinition(typeName, schema);
       typesContent += "\n\n";
+
+      // JSON Schema 2020-12 $defs become their own types, e.g. "PetTag" for Pet/$defs/Tag
+      for (const [defName, defSchema] of Object.entries(schema.$defs ?? {})) {
+        typesContent += generateTypeDefinition(getDefTypeName(typeName, defName), defSchema);
+        typesContent += "\n\n";
+      }
+    }
+
+    // Validators and fakes share one table of the component schemas
+    if (options.validators || options.fakes) {
+      typesContent += `// Component schemas\n${generateSchemaTable(apiData)}\n`;
+    }
+    if (options.validators) {
+      typesContent += createValidatorsFromApiData(apiData);
+    }
+    if (options.fakes) {
+      typesContent += createFakesFromApiData(apiData);
     }
   
     return typesContent;
   };
   
+  export const getSchemaTypeNames = (apiData: OpenAPIData): string[] => {
+    const typeNames: string[] = [];
+    for (const [typeName, schema] of Object.entries(apiData.components?.schemas ?? {})) {
+      typeNames.push(typeName);
+      for (const defName of Object.keys(schema.$defs ?? {})) {
+        typeNames.push(getDefTypeName(typeName, defName));
+      }
+    }
+    return typeNames;
+  };
+
   export const generateTypeDefinition = (typeName: string, schema: OpenAPISchema): string => {
-    if (schema.type === "object" && schema.properties) {
+    if (schema.type === "object" && schema.properties && !schema.nullable) {
       return generateInterface(typeName, schema);
     }
     
@@ -51,11 +88,8 @@ export const createTypesFromApiData = (apiData: OpenAPIData): string => {
   export const generateEnum = (typeName: string, schema: OpenAPISchema): string => {
     if (!schema.enum) return "";
     
-    const enumValues = schema.enum
-      .map(value => typeof value === "string" ? `"${value}"` : String(value))
-      .join(" | ");
-    
-    return `export type ${typeName} = ${enumValues};`;
+    // convertSchemaToType renders the literal union, including "| null" for nullable enums
+    return `export type ${typeName} = ${convertSchemaToType(schema)};`;
   };
   
   export const generateTypeAlias = (typeName: string, schema: OpenAPISchema): string => {
@@ -63,15 +97,49 @@ export const createTypesFromApiData = (apiData: OpenAPIData): string => {
     return `export type ${typeName} = ${type};`;
   };
   
+  export const getDefTypeName = (typeName: string, defName: string): string => {
+    return typeName + defName.charAt(0).toUpperCase() + defName.slice(1);
+  };
+
+  export const getRefTypeName = (ref: string): string => {
+    // "#/components/schemas/Pet/$defs/Tag" is generated as "PetTag"
+    const defsMatch = ref.match(/\/components\/schemas\/([^/]+)\/\$defs\/([^/]+)$/);
+    if (defsMatch) {
+      return getDefTypeName(defsMatch[1], defsMatch[2]);
+    }
+
+    // Extract type name from reference like "#/components/schemas/Todo"
+    // (resolveRefs inlines every other kind of reference before generation)
+    return ref.split("/").pop() || "unknown";
+  };
+
   export const convertSchemaToType = (schema: OpenAPISchema | any): string => {
+    // JSON Schema allows booleans as schemas
+    if (schema === false) {
+      return "never";
+    }
+
     if (!schema || typeof schema !== "object") {
       return "any";
     }
 
+    const type = convertNonNullableSchemaToType(schema);
+
+    // OpenAPI 3.0 "nullable: true"
+    if (schema.nullable === true && type !== "any" && !type.split(" | ").includes("null")) {
+      return `${type} | null`;
+    }
+
+    return type;
+  };
+
+  const convertNonNullableSchemaToType = (schema: OpenAPISchema): string => {
     if (schema.$ref) {
-      // Extract type name from reference like "#/components/schemas/Todo"
-      const refName = schema.$ref.split("/").pop() || "unknown";
-      return refName;
+      return getRefTypeName(schema.$ref);
+    }
+
+    if (schema.const !== undefined) {
+      return toLiteralType(schema.const);
     }
     
     // Handle anyOf, oneOf, allOf
@@ -89,9 +157,26 @@ export const createTypesFromApiData = (apiData: OpenAPIData): string => {
       const types = schema.allOf.map((s: any) => convertSchemaToType(s));
       return types.join(" & ");
     }
+
+    if (schema.enum) {
+      return schema.enum.map(toLiteralType).join(" | ");
+    }
+
+    // OpenAPI 3.1 type arrays like ["string", "null"]
+    if (Array.isArray(schema.type)) {
+      const types = schema.type.map((type: string) =>
+        convertNonNullableSchemaToType({ ...schema, type })
+      );
+      return Array.from(new Set(types)).join(" | ");
+    }
+
+    if (schema.type === "null") {
+      return "null";
+    }
     
     if (schema.type === "string") {
-      return "string";
+      // Files in multipart and binary bodies
+      return schema.format === "binary" ? "Blob" : "string";
     }
     
     if (schema.type === "number" || schema.type === "integer") {
@@ -103,36 +188,53 @@ export const createTypesFromApiData = (apiData: OpenAPIData): string => {
     }
     
     if (schema.type === "array") {
+      // Tuples: "prefixItems" in 2020-12, an "items" array in older drafts
+      const tupleItems = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined);
+      if (tupleItems) {
+        const restSchema = schema.prefixItems ? schema.items : schema.additionalItems;
+        const elements = tupleItems.map((s: OpenAPISchema) => convertSchemaToType(s));
+        if (restSchema !== false) {
+          elements.push(`...${wrapArrayItemType(convertSchemaToType(restSchema))}[]`);
+        }
+        return `[${elements.join(", ")}]`;
+      }
+
       if (schema.items) {
         const itemType = convertSchemaToType(schema.items);
-        return `${itemType}[]`;
+        return `${wrapArrayItemType(itemType)}[]`;
       }
       return "any[]";
     }
     
-      if (schema.type === "object") {
-    // If it has properties, generate an inline type
-    if (schema.properties) {
-      const properties: string[] = [];
-      for (const [propName, propSchema] of Object.entries(schema.properties)) {
-        const isRequired = schema.required?.includes(propName) ?? false;
-        const optional = isRequired ? "" : "?";
-        const propType = convertSchemaToType(propSchema as any);
-        // Escape property names that aren't valid identifiers
-        const escapedPropName = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(propName) ? propName : `"${propName}"`;
-        properties.push(`${escapedPropName}${optional}: ${propType}`);
+    if (schema.type === "object") {
+      // If it has properties, generate an inline type
+      if (schema.properties) {
+        const properties: string[] = [];
+        for (const [propName, propSchema] of Object.entries(schema.properties)) {
+          const isRequired = schema.required?.includes(propName) ?? false;
+          const optional = isRequired ? "" : "?";
+          const propType = convertSchemaToType(propSchema);
+          // Escape property names that aren't valid identifiers
+          const escapedPropName = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(propName) ? propName : `"${propName}"`;
+          properties.push(`${escapedPropName}${optional}: ${propType}`);
+        }
+        return `{ ${properties.join("; ")} }`;
       }
-      return `{ ${properties.join("; ")} }`;
+      return "Record<string, any>";
     }
-    return "Record<string, any>";
-  }
-    
-    if (schema.enum) {
-      const enumValues = schema.enum
-        .map((value: any) => typeof value === "string" ? `"${value}"` : String(value))
-        .join(" | ");
-      return enumValues;
+
+    // "not" on its own can't be expressed in TypeScript, anything but the excluded schema is allowed
+    if (schema.not) {
+      return "unknown";
     }
     
     return "any";
-  };
\ No newline at end of file
+  };
+
+  const toLiteralType = (value: unknown): string => {
+    return typeof value === "string" ? `"${value}"` : JSON.stringify(value) ?? "any";
+  };
+
+  const wrapArrayItemType = (type: string): string => {
+    return type.includes(" | ") || type.includes(" & ") ? `(${type})` : type;
+  };
@@ -0,0 +1,171 @@
+import type { OpenAPIData } from "../types/interfaces.ts";
+import { getDefTypeName } from "./type-generators.ts";
+import { escapePointerSegment } from "./ref-resolver.ts";
+
+/**
+ * Generates runtime validators for every schema in `components.schemas`: a
+ * `validate<Name>` function listing every violation with its path, and an
+ * `is<Name>` type guard. Schemas are checked against the table from
+ * `generateSchemaTable` by a small interpreter, `__validateSchema`, that the
+ * generated client also uses.
+ */
+export const createValidatorsFromApiData = (apiData: OpenAPIData): string => {
+  let validatorsContent = `// Runtime validators
+${generateValidationRuntime()}`;
+
+  for (const [typeName, schema] of Object.entries(apiData.components?.schemas ?? {})) {
+    const pointer = `#/components/schemas/${escapePointerSegment(typeName)}`;
+    validatorsContent += generateValidator(typeName, pointer);
+
+    for (const defName of Object.keys(schema.$defs ?? {})) {
+      validatorsContent += generateValidator(
+        getDefTypeName(typeName, defName),
+        `${pointer}/$defs/${escapePointerSegment(defName)}`,
+      );
+    }
+  }
+
+  return validatorsContent;
+};
+
+/**
+ * The component schemas embedded as JSON and `resolveSchemaRef`, shared by the
+ * validators, the fake data factories and the mock server
+ */
+export const generateSchemaTable = (apiData: OpenAPIData): string => {
+  const schemas = Object.entries(apiData.components?.schemas ?? {})
+    .map(([name, schema]) => `  ${JSON.stringify(name)}: ${JSON.stringify(schema)},`);
+
+  return `
+const schemas: Record<string, any> = {
+${schemas.join("\n")}
+};
+
+const resolveSchemaRef = (ref: string): any => {
+  const segments = ref.replace(/^#\\/components\\/schemas\\//, "").split("/")
+    .map((segment) => decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~"));
+  return segments.reduce((schema: any, segment) => schema?.[segment], schemas);
+};
+`;
+};
+
+/**
+ * `__SchemaViolation` and `__validateSchema`, which resolves refs with the
+ * `generateSchemaTable` table
+ */
+export const generateValidationRuntime = (): string => {
+  return `
+export interface __SchemaViolation {
+  /** Where the value went wrong, e.g. "$.items[2].id" */
+  path: string;
+  message: string;
+}
+
+const describeValue = (value: unknown): string => {
+  return value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+};
+
+const matchesType = (type: string, value: unknown): boolean => {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "string":
+      return typeof value === "string";
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number";
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+  }
+  return true;
+};
+
+const childPath = (path: string, name: string): string => {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? \`\${path}.\${name}\` : \`\${path}[\${JSON.stringify(name)}]\`;
+};
+
+/**
+ * Checks \`value\` against an OpenAPI schema, refs point into components.schemas
+ */
+export function __validateSchema(schema: any, value: unknown, path = "$"): __SchemaViolation[] {
+  if (schema === undefined || schema === null || schema === true) return [];
+  if (schema === false) return [{ path, message: "is not allowed" }];
+  if (schema.$ref) return __validateSchema(resolveSchemaRef(schema.$ref), value, path);
+  if (value === null && schema.nullable === true) return [];
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    return [{ path, message: \`expected \${JSON.stringify(schema.const)}, got \${JSON.stringify(value)}\` }];
+  }
+  if (schema.enum && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    return [{ path, message: \`expected one of \${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}, got \${JSON.stringify(value)}\` }];
+  }
+
+  const violations: __SchemaViolation[] = [];
+  for (const subschema of schema.allOf ?? []) {
+    violations.push(...__validateSchema(subschema, value, path));
+  }
+  if (schema.anyOf && !schema.anyOf.some((subschema: any) => __validateSchema(subschema, value, path).length === 0)) {
+    violations.push({ path, message: "does not match any of the anyOf schemas" });
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((subschema: any) => __validateSchema(subschema, value, path).length === 0).length;
+    if (matches !== 1) {
+      violations.push({ path, message: \`matches \${matches} of the oneOf schemas, expected exactly one\` });
+    }
+  }
+  if (schema.not !== undefined && __validateSchema(schema.not, value, path).length === 0) {
+    violations.push({ path, message: "matches a schema it must not" });
+  }
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  // Binary strings are Blobs at runtime
+  const isBinary = schema.format === "binary" && value instanceof Blob;
+  if (types.length > 0 && !isBinary && !types.some((type) => matchesType(type, value))) {
+    violations.push({ path, message: \`expected \${types.join(" | ")}, got \${describeValue(value)}\` });
+    return violations;
+  }
+
+  if (Array.isArray(value)) {
+    // Tuples: "prefixItems" in 2020-12, an "items" array in older drafts
+    const tupleItems = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined);
+    const restSchema = tupleItems ? (schema.prefixItems ? schema.items : schema.additionalItems) : schema.items;
+    value.forEach((item, index) => {
+      const itemSchema = tupleItems && index < tupleItems.length ? tupleItems[index] : restSchema;
+      violations.push(...__validateSchema(itemSchema, item, \`\${path}[\${index}]\`));
+    });
+  } else if (value !== null && typeof value === "object" && !isBinary) {
+    for (const name of schema.required ?? []) {
+      if (!(name in value)) {
+        violations.push({ path: childPath(path, name), message: "is required" });
+      }
+    }
+    for (const [name, item] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[name] ?? schema.additionalProperties;
+      violations.push(...__validateSchema(propertySchema, item, childPath(path, name)));
+    }
+  }
+
+  return violations;
+}
+`;
+};
+
+const generateValidator = (typeName: string, pointer: string): string => {
+  return `
+/**
+ * Lists every way \`value\` differs from the ${typeName} schema
+ */
+export const validate${typeName} = (value: unknown): __SchemaViolation[] => {
+  return __validateSchema({ $ref: ${JSON.stringify(pointer)} }, value);
+};
+
+export const is${typeName} = (value: unknown): value is ${typeName} => {
+  return validate${typeName}(value).length === 0;
+};
+`;
+};